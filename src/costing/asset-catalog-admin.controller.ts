@@ -0,0 +1,153 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CostingValidationPipe } from './pipes/costing-validation.pipe';
+import { AssetCatalogAdminService } from './services/asset-catalog-admin.service';
+import {
+  ComponentEffortDto,
+  UpdateComponentEffortDto,
+} from './dto/component-effort.dto';
+import { RateCardVersionQueryDto } from './dto/rate-card-version-query.dto';
+import { ComponentEffort } from './interfaces/rate-card.interface';
+import { ComplexityLevel } from './calculators/base-calculator';
+
+@ApiTags('Costing Admin')
+@Controller('costing/admin/assets/:assetName/components')
+export class AssetCatalogAdminController {
+  constructor(
+    private readonly assetCatalogAdminService: AssetCatalogAdminService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the components of an asset' })
+  @ApiResponse({
+    status: 200,
+    description: 'Components with their effort hours',
+    type: [ComponentEffortDto],
+  })
+  @ApiResponse({ status: 404, description: 'Asset has no effort catalog' })
+  findComponents(
+    @Param('assetName') assetName: string,
+    @Query(new CostingValidationPipe())
+    query: RateCardVersionQueryDto,
+  ): Promise<ComponentEffort[]> {
+    return this.assetCatalogAdminService.findComponents(
+      assetName,
+      query.version,
+    );
+  }
+
+  @Get(':componentName')
+  @ApiOperation({ summary: 'Get the effort hours for an asset component' })
+  @ApiResponse({ status: 200, type: ComponentEffortDto })
+  @ApiResponse({ status: 404, description: 'Asset or component not found' })
+  findComponent(
+    @Param('assetName') assetName: string,
+    @Param('componentName') componentName: string,
+    @Query(new CostingValidationPipe())
+    query: RateCardVersionQueryDto,
+  ): Promise<ComponentEffort> {
+    return this.assetCatalogAdminService.findComponent(
+      assetName,
+      componentName,
+      query.version,
+    );
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Add a component to an asset' })
+  @ApiResponse({ status: 201, type: ComponentEffortDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Rate card version missing or effort data invalid',
+  })
+  @ApiResponse({ status: 409, description: 'Component already exists' })
+  createComponent(
+    @Param('assetName') assetName: string,
+    @Body(new CostingValidationPipe())
+    component: ComponentEffortDto,
+    @Query(new CostingValidationPipe())
+    query: RateCardVersionQueryDto,
+  ): Promise<ComponentEffort> {
+    return this.assetCatalogAdminService.createComponent(
+      assetName,
+      {
+        name: component.name,
+        efforts: this.toEfforts(component.efforts),
+        ...(component.effortRanges && {
+          effortRanges: this.toEfforts(component.effortRanges),
+        }),
+      },
+      query.version,
+    );
+  }
+
+  @Put(':componentName')
+  @ApiOperation({ summary: 'Replace the effort hours for an asset component' })
+  @ApiResponse({ status: 200, type: ComponentEffortDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Rate card version missing or effort data invalid',
+  })
+  @ApiResponse({ status: 404, description: 'Asset or component not found' })
+  updateComponent(
+    @Param('assetName') assetName: string,
+    @Param('componentName') componentName: string,
+    @Body(new CostingValidationPipe())
+    update: UpdateComponentEffortDto,
+    @Query(new CostingValidationPipe())
+    query: RateCardVersionQueryDto,
+  ): Promise<ComponentEffort> {
+    return this.assetCatalogAdminService.updateComponent(
+      assetName,
+      componentName,
+      {
+        efforts: this.toEfforts(update.efforts),
+        ...(update.effortRanges && {
+          effortRanges: this.toEfforts(update.effortRanges),
+        }),
+      },
+      query.version,
+    );
+  }
+
+  @Delete(':componentName')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Remove a component from an asset' })
+  @ApiResponse({ status: 204, description: 'Component removed' })
+  @ApiResponse({ status: 400, description: 'Rate card version missing' })
+  @ApiResponse({ status: 404, description: 'Asset or component not found' })
+  removeComponent(
+    @Param('assetName') assetName: string,
+    @Param('componentName') componentName: string,
+    @Query(new CostingValidationPipe())
+    query: RateCardVersionQueryDto,
+  ): Promise<void> {
+    return this.assetCatalogAdminService.removeComponent(
+      assetName,
+      componentName,
+      query.version,
+    );
+  }
+
+  /**
+   * Convert a validated DTO into a plain effort or effort range table,
+   * dropping complexity levels that were not supplied
+   */
+  private toEfforts<T>(
+    efforts: Partial<Record<ComplexityLevel, T>>,
+  ): Partial<Record<ComplexityLevel, T>> {
+    return Object.fromEntries(
+      Object.entries(efforts).filter(([, value]) => value !== undefined),
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CostingValidationPipe } from './pipes/costing-validation.pipe';
+import { BlendRateAdminService } from './services/blend-rate-admin.service';
+import {
+  BlendRateDto,
+  BlendRateQueryDto,
+  UpdateBlendRateDto,
+} from './dto/blend-rate.dto';
+import { BlendRate } from './interfaces/rate-card.interface';
+
+@ApiTags('Costing Admin')
+@Controller('costing/admin/blend-rates')
+export class BlendRateAdminController {
+  constructor(private readonly blendRateAdminService: BlendRateAdminService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List location blend rates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Blend rates in the rate card',
+    type: [BlendRateDto],
+  })
+  findAll(
+    @Query(new CostingValidationPipe()) query: BlendRateQueryDto,
+  ): Promise<BlendRate[]> {
+    return this.blendRateAdminService.findAll(query.version, query.assetName);
+  }
+
+  @Get(':location')
+  @ApiOperation({ summary: 'Get the blend rate for a location' })
+  @ApiResponse({ status: 200, type: BlendRateDto })
+  @ApiResponse({ status: 404, description: 'Blend rate not found' })
+  findOne(
+    @Param('location') location: string,
+    @Query(new CostingValidationPipe()) query: BlendRateQueryDto,
+  ): Promise<BlendRate> {
+    return this.blendRateAdminService.findOne(
+      location,
+      query.assetName,
+      query.version,
+    );
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a blend rate for a location' })
+  @ApiResponse({ status: 201, type: BlendRateDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Rate card version missing or currency without an FX rate',
+  })
+  @ApiResponse({ status: 409, description: 'Blend rate already exists' })
+  create(
+    @Body(new CostingValidationPipe()) blendRate: BlendRateDto,
+    @Query(new CostingValidationPipe()) query: BlendRateQueryDto,
+  ): Promise<BlendRate> {
+    return this.blendRateAdminService.create(
+      {
+        location: blendRate.location,
+        ...(blendRate.assetName && { assetName: blendRate.assetName }),
+        ...(blendRate.currency && { currency: blendRate.currency }),
+        rates: { ...blendRate.rates },
+      },
+      query.version,
+    );
+  }
+
+  @Put(':location')
+  @ApiOperation({ summary: 'Replace the rates for a location' })
+  @ApiResponse({ status: 200, type: BlendRateDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Rate card version missing or currency without an FX rate',
+  })
+  @ApiResponse({ status: 404, description: 'Blend rate not found' })
+  update(
+    @Param('location') location: string,
+    @Body(new CostingValidationPipe()) update: UpdateBlendRateDto,
+    @Query(new CostingValidationPipe()) query: BlendRateQueryDto,
+  ): Promise<BlendRate> {
+    return this.blendRateAdminService.update(
+      location,
+      { ...update.rates },
+      query.assetName,
+      query.version,
+    );
+  }
+
+  @Delete(':location')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete the blend rate for a location' })
+  @ApiResponse({ status: 204, description: 'Blend rate deleted' })
+  @ApiResponse({ status: 400, description: 'Rate card version missing' })
+  @ApiResponse({ status: 404, description: 'Blend rate not found' })
+  remove(
+    @Param('location') location: string,
+    @Query(new CostingValidationPipe()) query: BlendRateQueryDto,
+  ): Promise<void> {
+    return this.blendRateAdminService.remove(
+      location,
+      query.assetName,
+      query.version,
+    );
+  }
+}
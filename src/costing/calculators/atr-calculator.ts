@@ -4,115 +4,79 @@ import {
   CostBreakdown,
   AssetComponent,
 } from '../interfaces/costing.interface';
-import { BaseCalculator, ComplexityLevel } from './base-calculator';
+import { AssetCalculator } from '../decorators/asset-calculator.decorator';
+import {
+  BaseCalculator,
+  COMPLEXITY_LEVELS,
+  ComplexityLevel,
+} from './base-calculator';
+import { CostingIssue } from '../exceptions/costing.exception';
+import { SpecificFieldsSchema } from '../interfaces/json-schema.interface';
+import { RateCard } from '../interfaces/rate-card.interface';
+import { ENGINE_CURRENCY } from '../data/default-fx-rates';
 
 @Injectable()
+@AssetCalculator('ATR')
 export class AtrCalculator extends BaseCalculator {
   // Initialize logger for this specific calculator
   protected readonly logger = new Logger(AtrCalculator.name);
 
   protected assetName = 'ATR';
 
-  /**
-   * Get blended hourly rates for ATR by complexity and location
-   */
-  protected getBlendRates(): Record<string, Record<ComplexityLevel, number>> {
-    return {
-      India: {
-        xSmall: 14,
-        Small: 14,
-        Medium: 15,
-        Large: 16,
-        xLarge: 17,
+  protected specificFieldsSchema: SpecificFieldsSchema = {
+    type: 'object',
+    properties: {
+      licenseCount: {
+        type: 'number',
+        description: 'Number of ATR licenses to run',
+        minimum: 1,
+        errorMessage:
+          'License count must be specified and at least 1 for ATR run cost calculation',
       },
-      Australia: {
-        xSmall: 48,
-        Small: 49,
-        Medium: 52,
-        Large: 53,
-        xLarge: 55,
+      hasCustomComponents: {
+        type: 'boolean',
+        description: 'Whether the deployment includes custom components',
       },
-    };
-  }
-
-  /**
-   * Get effort hours for ATR components by location and complexity
-   * @param component - The component name to get hours for
-   * @param complexity - The complexity level (must be a valid ComplexityLevel)
-   * @throws Error if hours are not found for the component and complexity
-   */
-  protected getEffortHours(
-    component: string,
-    complexity: ComplexityLevel,
-  ): Record<string, number> {
-    this.logger.debug(
-      `Getting effort hours for component: ${component}, complexity: ${complexity}`,
-    );
-    // Define effort hours by component, complexity, and location
-    // These are example values and would typically come from a database
-    const effortHoursByComponent: Record<
-      string,
-      Record<ComplexityLevel, Record<string, number>>
-    > = {
-      ignition: {
-        xSmall: { Australia: 19.39, India: 21.14 },
-        Small: { Australia: 21.34, India: 23.1 },
-        Medium: { Australia: 31.25, India: 32.8 },
-        Large: { Australia: 41.2, India: 42.6 },
-        xLarge: { Australia: 50.91, India: 52.47 },
-      },
-      'automation configuration': {
-        xSmall: { Australia: 21.35, India: 10 },
-        Small: { Australia: 20.92, India: 10 },
-        Medium: { Australia: 17.76, India: 10 },
-        Large: { Australia: 15.52, India: 10 },
-        xLarge: { Australia: 13.11, India: 10 },
-      },
-    };
-
-    // Get hours for this component
-    const componentHours = effortHoursByComponent[component];
-    if (!componentHours) {
-      const errorMsg = `Effort hours not found for component: ${component}`;
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    // Get hours for this complexity
-    const complexityHours = componentHours[complexity];
-    if (!complexityHours) {
-      const errorMsg = `Effort hours not found for component: ${component}, complexity: ${complexity}`;
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    this.logger.debug(
-      `Found effort hours for ${component} (${complexity}): ${JSON.stringify(complexityHours)}`,
-    );
-    return complexityHours;
-  }
+    },
+    required: ['licenseCount'],
+  };
 
   /**
    * Calculate costs for ATR component based on effort hours
    * @param component - The asset component to calculate costs for
    * @param complexity - The complexity level (must be a valid ComplexityLevel)
+   * @param rateCard - The rate card the request is priced with
+   * @param asOfDate - Convert with the FX table in effect on this date
+   * @param componentPath - Path of the component in the request
    */
   protected calculateEffortBasedCosts(
     component: AssetComponent,
     complexity: ComplexityLevel,
+    rateCard: RateCard,
+    asOfDate?: Date,
+    componentPath?: string,
   ): CostBreakdown {
     this.logger.debug(
       `Calculating effort-based costs for ATR component: ${component.name}`,
     );
     try {
-      const blendRates = this.getBlendRates();
-      const effortHours = this.getEffortHours(component.name, complexity);
+      const blendRates = this.getBlendRates(
+        rateCard,
+        asOfDate,
+        component.resourceModel.map(({ location }) => location),
+      );
+      const effortHours = this.getEffortHours(
+        component.name,
+        complexity,
+        rateCard,
+      );
 
       return this.calculateEffortBasedComponentCost(
         component,
         complexity,
         blendRates,
         effortHours,
+        componentPath,
       );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -127,63 +91,60 @@ export class AtrCalculator extends BaseCalculator {
         description: `Error calculating costs for ${component.name}`,
         isError: true,
         errorMessage: message,
+        complexity,
       };
     }
   }
 
+  /**
+   * Check the complexity each component is priced at. The request-level
+   * complexity is only mandatory for components without their own
+   */
+  protected validateRequest(request: AssetCostRequest): CostingIssue[] {
+    return this.validateComplexities(request, COMPLEXITY_LEVELS);
+  }
+
   /**
    * Calculate build cost for ATR
    */
   protected calculateBuildCost(
     request: AssetCostRequest,
+    rateCard: RateCard,
   ): Promise<{ total: number; breakdown: CostBreakdown[] }> {
     this.logger.log(
       `Calculating ATR build cost for asset: ${request.assetName}`,
     );
     const components = request.assetComponents;
-    const { complexity } = request;
-
-    // Validate that complexity is provided for ATR
-    if (!complexity) {
-      const errorMsg = 'Complexity is mandatory for ATR cost calculation';
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    // Check if complexity is a valid ComplexityLevel
-    const validComplexities: ComplexityLevel[] = [
-      'xSmall',
-      'Small',
-      'Medium',
-      'Large',
-      'xLarge',
-    ];
-    if (!validComplexities.includes(complexity as ComplexityLevel)) {
-      const errorMsg = `Invalid complexity: ${complexity}. Must be one of: ${validComplexities.join(', ')}`;
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-    this.logger.debug(`Validated complexity for ATR build cost: ${complexity}`);
+    // Complexities were checked by validateRequest
+    const complexities = components.map(
+      (component) =>
+        this.resolveComplexity(
+          component,
+          request.complexity,
+        ) as ComplexityLevel,
+    );
+    this.logger.debug(
+      `Validated complexities for ATR build cost: ${complexities.join(', ')}`,
+    );
 
     // Calculate cost for each component
     this.logger.debug('Calculating cost for each ATR component...');
-    const breakdown: CostBreakdown[] = [];
-    for (const component of components) {
-      const componentCost = this.calculateEffortBasedCosts(
+    const breakdown = components.map((component, index) =>
+      this.calculateEffortBasedCosts(
         component,
-        complexity as ComplexityLevel,
-      );
-      breakdown.push(componentCost);
-    }
+        complexities[index],
+        rateCard,
+        request.asOfDate,
+        `assetComponents[${index}]`,
+      ),
+    );
     this.logger.debug('Finished calculating component costs.');
 
-    // TODO: add cost for Use-cases (Add logging here when implemented)
-
     // Calculate total
     const total = this.calculateTotalFromBreakdown(breakdown);
     this.logger.log(`ATR build cost calculated: ${total}`);
 
-    return Promise.resolve({ total, breakdown }); // Wrap in Promise.resolve
+    return Promise.resolve({ total, breakdown });
   }
 
   /**
@@ -197,26 +158,25 @@ export class AtrCalculator extends BaseCalculator {
     this.logger.log(`Calculating ATR run cost for asset: ${request.assetName}`);
     const licenseCount = request.specificFields?.licenseCount as number;
 
-    if (!licenseCount || licenseCount < 1) {
-      const errorMsg =
-        'License count must be specified and at least 1 for ATR run cost calculation';
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-    this.logger.debug(
-      `Validated license count for ATR run cost: ${licenseCount}`,
-    );
-
     const baseMonthlyLicense = 500; // Base monthly license cost per instance
     const breakdown: CostBreakdown[] = [];
 
     // Calculate license costs
     const licenseCost = baseMonthlyLicense * licenseCount;
     this.logger.debug(`Calculated license cost: ${licenseCost}`);
+    // Amounts are converted to the response currency later; quote the
+    // unit price in that currency too
+    const currency = request.currency ?? ENGINE_CURRENCY;
+    const licensePrice = this.fxRateService.convert(
+      baseMonthlyLicense,
+      ENGINE_CURRENCY,
+      currency,
+      request.asOfDate,
+    );
     breakdown.push({
       costComponentName: 'License Fees',
       amount: licenseCost,
-      description: `${licenseCount} license(s) at $${baseMonthlyLicense}/month each`,
+      description: `${licenseCount} license(s) at ${licensePrice.toFixed(2)} ${currency}/month each`,
       isError: false,
     });
 
@@ -7,8 +7,45 @@ import {
   CostCalculator,
   // ResourceAllocation, // Unused import
   AssetComponent,
+  BuildCostConfidence,
+  CostAdjustments,
   EffortBreakdown,
 } from '../interfaces/costing.interface';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { LocationRegistryService } from '../services/location-registry.service';
+import { FxRateService } from '../services/fx-rate.service';
+import { ENGINE_CURRENCY } from '../data/default-fx-rates';
+import {
+  BlendRate,
+  ComponentEffort,
+  RateCard,
+} from '../interfaces/rate-card.interface';
+import { PricingLayer } from '../interfaces/pricing.interface';
+import { applyPricingLayers, PricingContext } from '../utils/pricing.util';
+import {
+  Distribution,
+  normalPercentiles,
+  pertDistribution,
+} from '../utils/pert.util';
+import { buildStaffingPlan } from '../utils/staffing.util';
+import {
+  describeSpecificFields,
+  JSON_SCHEMA_DIALECT,
+  sampleSpecificFields,
+  validateSpecificFields,
+} from '../utils/json-schema.util';
+import { SpecificFieldsSchema } from '../interfaces/json-schema.interface';
+import {
+  AssetMetadata,
+  ComponentMetadata,
+} from '../interfaces/asset-metadata.interface';
+import {
+  CostingIssue,
+  CostingValidationException,
+  MissingRateDataException,
+  UnsupportedComponentException,
+  UnsupportedLocationException,
+} from '../exceptions/costing.exception';
 
 // Define valid complexity levels as string literal union type
 export type ComplexityLevel =
@@ -18,6 +55,22 @@ export type ComplexityLevel =
   | 'Large'
   | 'xLarge';
 
+export const COMPLEXITY_LEVELS: ComplexityLevel[] = [
+  'xSmall',
+  'Small',
+  'Medium',
+  'Large',
+  'xLarge',
+];
+
+/**
+ * Effort hours and cost of delivering a whole component from one location
+ */
+export interface LocationCostRate {
+  hours: number;
+  cost: number;
+}
+
 /**
  * Base calculator providing common costing functionality for all asset calculators
  */
@@ -32,53 +85,226 @@ export abstract class BaseCalculator implements CostCalculator {
    */
   protected abstract assetName: string;
 
+  /**
+   * JSON Schema of the specificFields this calculator expects
+   * To be overridden by subclasses that take specificFields
+   */
+  protected specificFieldsSchema: SpecificFieldsSchema = {
+    type: 'object',
+    properties: {},
+  };
+
+  /**
+   * Period run costs are quoted for
+   * To be overridden by subclasses that quote yearly
+   */
+  protected runCostPeriod: 'monthly' | 'yearly' = 'monthly';
+
+  constructor(
+    protected readonly rateCardRepository: RateCardRepository,
+    protected readonly locationRegistry: LocationRegistryService,
+    protected readonly fxRateService: FxRateService,
+  ) {}
+
   /**
    * Location-based rates lookup
    * To be overridden by each asset-specific calculator
    */
   // protected abstract getLocationRates(): Record<string, number>;
 
+  /**
+   * Get the blend rate that applies to each location for this asset, in the
+   * currency it is stored in. System-wide rates are overridden by rates
+   * scoped to this asset.
+   * @param rateCard - The rate card the request is priced with
+   */
+  private findBlendRates(rateCard: RateCard): Record<string, BlendRate> {
+    const blendRates: Record<string, BlendRate> = {};
+    rateCard.blendRates
+      .filter((blendRate) => !blendRate.assetName)
+      .forEach((blendRate) => {
+        blendRates[blendRate.location] = blendRate;
+      });
+    rateCard.blendRates
+      .filter((blendRate) => blendRate.assetName === this.assetName)
+      .forEach((blendRate) => {
+        blendRates[blendRate.location] = blendRate;
+      });
+    return blendRates;
+  }
+
+  /**
+   * Get blended hourly rates by location and complexity for this asset,
+   * converted to the engine currency. Only the given locations are
+   * converted, so a rate in an unknown currency only affects requests using
+   * its location.
+   * @param rateCard - The rate card the request is priced with
+   * @param asOfDate - Convert with the FX table in effect on this date
+   * @param locations - The locations to get rates for (all when omitted)
+   * @throws MissingRateDataException if the rate of one of the locations
+   * cannot be converted
+   */
+  protected getBlendRates(
+    rateCard: RateCard,
+    asOfDate?: Date,
+    locations?: string[],
+  ): Record<string, Record<ComplexityLevel, number>> {
+    const applicable = this.findBlendRates(rateCard);
+    const blendRates: Record<string, Record<ComplexityLevel, number>> = {};
+    (locations ?? Object.keys(applicable))
+      .filter((location) => applicable[location])
+      .forEach((location) => {
+        blendRates[location] = this.toEngineCurrency(
+          applicable[location],
+          asOfDate,
+        );
+      });
+    return blendRates;
+  }
+
+  /**
+   * Check that a blend rate can be converted to the engine currency
+   */
+  private isConvertible(blendRate: BlendRate, asOfDate?: Date): boolean {
+    try {
+      this.toEngineCurrency(blendRate, asOfDate);
+      return true;
+    } catch (error) {
+      if (error instanceof MissingRateDataException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Convert the rates of a blend rate into the engine currency
+   * @throws MissingRateDataException if the blend rate currency has no FX rate
+   */
+  private toEngineCurrency(
+    blendRate: BlendRate,
+    asOfDate?: Date,
+  ): Record<ComplexityLevel, number> {
+    const currency = blendRate.currency ?? ENGINE_CURRENCY;
+    if (currency === ENGINE_CURRENCY) {
+      return blendRate.rates;
+    }
+    const { rate } = this.fxRateService.getRate(
+      currency,
+      ENGINE_CURRENCY,
+      asOfDate,
+    );
+    const rates = { ...blendRate.rates };
+    for (const complexity of Object.keys(rates) as ComplexityLevel[]) {
+      rates[complexity] *= rate;
+    }
+    return rates;
+  }
+
+  /**
+   * Get the effort tables of this asset's components from the rate card
+   * @param rateCard - The rate card the request is priced with
+   */
+  protected getComponentEfforts(rateCard: RateCard): ComponentEffort[] {
+    return (
+      rateCard.assets.find((asset) => asset.name === this.assetName)
+        ?.components ?? []
+    );
+  }
+
+  /**
+   * Get effort hours by location for one of this asset's components
+   * @param componentName - The component name to get hours for
+   * @param complexity - The complexity level (must be a valid ComplexityLevel)
+   * @param rateCard - The rate card the request is priced with
+   * @throws UnsupportedComponentException if the component is not in the
+   * effort catalog
+   * @throws MissingRateDataException if it has no hours at the complexity
+   */
+  protected getEffortHours(
+    componentName: string,
+    complexity: ComplexityLevel,
+    rateCard: RateCard,
+  ): Record<string, number> {
+    this.logger.debug(
+      `Getting effort hours for component: ${componentName}, complexity: ${complexity}`,
+    );
+    const components = this.getComponentEfforts(rateCard);
+    const component = components.find((item) => item.name === componentName);
+
+    if (!component) {
+      const errorMsg = `Effort hours not found for component: ${componentName}`;
+      this.logger.error(errorMsg);
+      throw new UnsupportedComponentException(errorMsg);
+    }
+
+    const hours = component.efforts[complexity];
+    if (!hours) {
+      const errorMsg = `Effort hours not found for component: ${componentName}, complexity: ${complexity}`;
+      this.logger.error(errorMsg);
+      throw new MissingRateDataException(errorMsg);
+    }
+
+    this.logger.debug(
+      `Found effort hours for ${componentName} (${complexity}): ${JSON.stringify(hours)}`,
+    );
+    return hours;
+  }
+
   /**
    * Validates if the submitted asset components are valid for this asset type
    * @param components - components to validate
    * @returns an array of validation errors, empty if all valid
    */
   protected validateComponents(components: AssetComponent[]): string[] {
+    return this.findComponentIssues(components).map((issue) => issue.message);
+  }
+
+  /**
+   * Check the components for missing names, duplicate names and resource
+   * allocations that do not sum to 100%
+   * @returns every problem found with the path of the field at fault
+   */
+  protected findComponentIssues(components: AssetComponent[]): CostingIssue[] {
     this.logger.debug('Validating asset components...');
-    const errors: string[] = [];
+    const issues: CostingIssue[] = [];
+    const fail = (path: string, message: string) => {
+      issues.push({ code: 'VALIDATION_FAILED', message, path });
+      this.logger.warn(`Validation failed: ${message}`);
+    };
 
     if (!components || components.length === 0) {
-      errors.push('No components specified');
-      this.logger.warn('Validation failed: No components specified.');
-      return errors;
+      fail('assetComponents', 'No components specified');
+      return issues;
     }
 
     // Check for duplicate component names
     const names = components.map((c) => c.name);
-    const uniqueNames = new Set(names);
-
-    if (uniqueNames.size !== components.length) {
+    const duplicateIndex = names.findIndex(
+      (item, index) => names.indexOf(item) !== index,
+    );
+    if (duplicateIndex !== -1) {
       const duplicates = names.filter(
         (item, index) => names.indexOf(item) !== index,
       );
-      errors.push(`Duplicate component names found: ${duplicates.join(', ')}`);
-      this.logger.warn(
-        `Validation failed: Duplicate component names found: ${duplicates.join(', ')}`,
+      fail(
+        `assetComponents[${duplicateIndex}].name`,
+        `Duplicate component names found: ${duplicates.join(', ')}`,
       );
     }
 
     // Validation for each component
-    for (const component of components) {
+    for (const [index, component] of components.entries()) {
+      const path = `assetComponents[${index}]`;
       if (!component.name) {
-        errors.push('Component missing name');
-        this.logger.warn('Validation failed: Component missing name.');
+        fail(`${path}.name`, 'Component missing name');
       }
 
       if (!component.resourceModel || component.resourceModel.length === 0) {
         const compName = component.name || 'unnamed';
-        errors.push(`Component ${compName} has no resource allocation`);
-        this.logger.warn(
-          `Validation failed: Component ${compName} has no resource allocation.`,
+        fail(
+          `${path}.resourceModel`,
+          `Component ${compName} has no resource allocation`,
         );
       } else {
         // Check that allocations sum to 100%
@@ -88,37 +314,270 @@ export abstract class BaseCalculator implements CostCalculator {
         );
 
         if (Math.abs(totalAllocation - 100) > 0.01) {
-          errors.push(
+          fail(
+            `${path}.resourceModel`,
             `Component ${component.name} resource allocations should sum to 100% (currently ${totalAllocation}%)`,
           );
-          this.logger.warn(
-            `Validation failed: Component ${component.name} allocation sum is ${totalAllocation}%.`,
-          );
         }
       }
     }
-    if (errors.length === 0) {
+    if (issues.length === 0) {
       this.logger.debug('Component validation successful.');
     }
-    return errors;
+    return issues;
+  }
+
+  /**
+   * Find the delivery locations of the components that are not in the
+   * location registry
+   */
+  protected validateLocations(components: AssetComponent[]): CostingIssue[] {
+    return (components ?? []).flatMap((component, index) =>
+      (component.resourceModel ?? [])
+        .map((resource, resourceIndex) => ({ resource, resourceIndex }))
+        .filter(
+          ({ resource }) =>
+            !this.locationRegistry.findLocation(resource.location),
+        )
+        .map(({ resource, resourceIndex }) => ({
+          code: 'UNSUPPORTED_LOCATION' as const,
+          message: `Unknown location: ${resource.location}`,
+          path: `assetComponents[${index}].resourceModel[${resourceIndex}].location`,
+        })),
+    );
+  }
+
+  /**
+   * Check that every component is priced at one of the given complexity
+   * levels. The request-level complexity is only mandatory for components
+   * without their own
+   */
+  protected validateComplexities(
+    request: AssetCostRequest,
+    levels: ComplexityLevel[],
+  ): CostingIssue[] {
+    const issues: CostingIssue[] = [];
+    const components = request.assetComponents ?? [];
+
+    const withoutComplexity = components
+      .filter(
+        (component) => !this.resolveComplexity(component, request.complexity),
+      )
+      .map((component) => component.name);
+    if (withoutComplexity.length > 0) {
+      issues.push({
+        code: 'VALIDATION_FAILED',
+        message: `Complexity is mandatory for ${this.assetName} cost calculation (missing for: ${withoutComplexity.join(', ')})`,
+        path: 'complexity',
+      });
+    }
+    for (const [index, component] of components.entries()) {
+      const complexity = this.resolveComplexity(component, request.complexity);
+      if (complexity && !levels.includes(complexity as ComplexityLevel)) {
+        issues.push({
+          code: 'VALIDATION_FAILED',
+          message: `Invalid complexity: ${complexity} for component ${component.name}. Must be one of: ${levels.join(', ')}`,
+          path: component.complexity
+            ? `assetComponents[${index}].complexity`
+            : 'complexity',
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Run every check made before a calculation
+   */
+  private findRequestIssues(request: AssetCostRequest): CostingIssue[] {
+    return [
+      ...this.findComponentIssues(request.assetComponents),
+      ...this.validateRequest(request),
+      ...validateSpecificFields(
+        this.assetName,
+        request.specificFields,
+        this.specificFieldsSchema,
+      ),
+      ...this.validateLocations(request.assetComponents),
+    ];
+  }
+
+  /**
+   * Check a request without pricing it: every check made before a
+   * calculation, plus the rate data a calculation would report as error
+   * items (components missing from the effort catalog, and locations
+   * without effort hours or a blend rate at the component's complexity)
+   * @param request - The request to check
+   * @returns every problem found, empty if the request can be priced
+   */
+  public async validate(request: AssetCostRequest): Promise<CostingIssue[]> {
+    const issues = this.findRequestIssues(request);
+    const rateCard = await this.rateCardRepository.findRateCard(
+      request.asOfDate,
+    );
+    const catalog = this.getComponentEfforts(rateCard);
+    if (catalog.length === 0) {
+      return issues;
+    }
+    const blendRates = this.findBlendRates(rateCard);
+
+    for (const [index, component] of (
+      request.assetComponents ?? []
+    ).entries()) {
+      const path = `assetComponents[${index}]`;
+      const complexity = this.getPricedComplexity(component, request);
+      const effort = catalog.find((item) => item.name === component.name);
+      if (!effort) {
+        issues.push({
+          code: 'UNSUPPORTED_COMPONENT',
+          message: `Component ${component.name} is not offered for ${this.assetName}. Available: ${catalog.map((item) => item.name).join(', ')}`,
+          path: `${path}.name`,
+        });
+      } else if (complexity && !effort.efforts[complexity]) {
+        issues.push({
+          code: 'RATE_DATA_MISSING',
+          message: `Effort hours not found for component: ${component.name}, complexity: ${complexity}`,
+          path: component.complexity ? `${path}.complexity` : 'complexity',
+        });
+      } else if (complexity) {
+        const hours = effort.efforts[complexity] ?? {};
+        // Unknown locations are already reported by validateLocations
+        const resources = (component.resourceModel ?? [])
+          .map(({ location }, resourceIndex) => ({
+            location,
+            locationPath: `${path}.resourceModel[${resourceIndex}].location`,
+          }))
+          .filter(({ location }) =>
+            this.locationRegistry.findLocation(location),
+          );
+        for (const { location, locationPath } of resources) {
+          if (hours[location] === undefined) {
+            issues.push({
+              code: 'RATE_DATA_MISSING',
+              message: `Component ${component.name} has no effort hours for location "${location}" at complexity "${complexity}"`,
+              path: locationPath,
+            });
+          } else if (!blendRates[location]?.rates[complexity]) {
+            issues.push({
+              code: 'RATE_DATA_MISSING',
+              message: `Blend rate not found for location "${location}" at complexity "${complexity}"`,
+              path: locationPath,
+            });
+          } else if (
+            !this.isConvertible(blendRates[location], request.asOfDate)
+          ) {
+            issues.push({
+              code: 'RATE_DATA_MISSING',
+              message: `Blend rate for location "${location}" is in ${blendRates[location].currency}, which has no FX rate`,
+              path: locationPath,
+            });
+          }
+        }
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Get the complexity a component would be priced at, or undefined if it
+   * has none. To be overridden by calculators with a default complexity
+   */
+  protected getPricedComplexity(
+    component: AssetComponent,
+    request: AssetCostRequest,
+  ): ComplexityLevel | undefined {
+    const complexity = this.resolveComplexity(component, request.complexity);
+    return COMPLEXITY_LEVELS.includes(complexity as ComplexityLevel)
+      ? (complexity as ComplexityLevel)
+      : undefined;
+  }
+
+  /**
+   * Get the complexity pricing layers look up in percentByComplexity: the
+   * highest complexity any component is priced at, so contingency covers
+   * the riskiest component
+   * @returns undefined if no component has a complexity
+   */
+  protected getPricingComplexity(
+    request: AssetCostRequest,
+  ): ComplexityLevel | undefined {
+    const levels = (request.assetComponents ?? [])
+      .map((component) => this.getPricedComplexity(component, request))
+      .filter((complexity): complexity is ComplexityLevel => !!complexity)
+      .map((complexity) => COMPLEXITY_LEVELS.indexOf(complexity));
+    return levels.length > 0
+      ? COMPLEXITY_LEVELS[Math.max(...levels)]
+      : undefined;
   }
 
   /**
-   * Get the working hours per location
+   * Validates the asset-specific parts of a request. To be overridden by
+   * calculators that need more than the component checks
+   * @returns every problem found, empty if all valid
+   */
+  protected validateRequest(_request: AssetCostRequest): CostingIssue[] {
+    return [];
+  }
+
+  /**
+   * Get the complexity a component is priced at: its own complexity when
+   * set, otherwise the request-level complexity
+   */
+  protected resolveComplexity(
+    component: AssetComponent,
+    requestComplexity?: string,
+  ): string | undefined {
+    return component.complexity ?? requestComplexity;
+  }
+
+  /**
+   * Get the working hours per day for a location from the location registry
    * @param location - The location to get working hours for
-   * @returns The working hours per location
+   * @returns The working hours per day
+   * @throws UnsupportedLocationException if the location is not registered
    */
   private getWorkingHoursPerLocation(location: string): number {
-    // No logging needed here unless debugging specific locations
-    switch (location) {
-      case 'Australia':
-        return 8;
-      case 'India':
-        return 9;
-      default:
-        this.logger.error(`Unknown location encountered: ${location}`);
-        throw new Error(`Unknown location: ${location}`);
+    return this.locationRegistry.getLocation(location).workingHoursPerDay;
+  }
+
+  /**
+   * Get the effort hours and cost, in the engine currency, of allocating
+   * 100% of a component to each location that can deliver it
+   * @param asOfDate - Price with the rate card in effect on this date
+   * @throws CostingException if the component has no effort hours at this complexity
+   */
+  public async getLocationCostRates(
+    componentName: string,
+    complexity: ComplexityLevel,
+    asOfDate?: Date,
+  ): Promise<Record<string, LocationCostRate>> {
+    const rateCard = await this.rateCardRepository.findRateCard(asOfDate);
+    const effortHours = this.getEffortHours(
+      componentName,
+      complexity,
+      rateCard,
+    );
+    const applicable = this.findBlendRates(rateCard);
+    const blendRates = this.getBlendRates(
+      rateCard,
+      asOfDate,
+      Object.keys(effortHours).filter(
+        (location) =>
+          applicable[location] &&
+          this.isConvertible(applicable[location], asOfDate),
+      ),
+    );
+
+    const costRates: Record<string, LocationCostRate> = {};
+    for (const [location, effort] of Object.entries(effortHours)) {
+      const blendRate = blendRates[location]?.[complexity];
+      const deliveryLocation = this.locationRegistry.findLocation(location);
+      if (blendRate && deliveryLocation) {
+        const hours = deliveryLocation.workingHoursPerDay * effort;
+        costRates[location] = { hours, cost: hours * blendRate };
+      }
     }
+    return costRates;
   }
 
   /**
@@ -127,12 +586,17 @@ export abstract class BaseCalculator implements CostCalculator {
    * @param complexity - The complexity level (must be a valid ComplexityLevel)
    * @param blendRates - Blend rates by location and complexity
    * @param effortHours - Effort hours by location
+   * @param componentPath - Path of the component in the request, e.g.
+   * assetComponents[0], for the issues reported
+   * @throws MissingRateDataException if a location of the resource model has
+   * no blend rate or no effort hours at this complexity
    */
   protected calculateEffortBasedComponentCost(
     component: AssetComponent,
     complexity: ComplexityLevel,
     blendRates: Record<string, Record<ComplexityLevel, number>>,
     effortHours: Record<string, number>,
+    componentPath?: string,
   ): CostBreakdown {
     this.logger.debug(
       `Calculating effort-based cost for component: ${component.name}, Complexity: ${complexity}`,
@@ -141,23 +605,47 @@ export abstract class BaseCalculator implements CostCalculator {
     const effortBreakdown: EffortBreakdown[] = [];
     let totalEffortHours = 0;
 
-    for (const { allocation, location } of component.resourceModel) {
+    for (const [
+      resourceIndex,
+      { allocation, location },
+    ] of component.resourceModel.entries()) {
       this.logger.debug(
         `Processing allocation for location: ${location} (${allocation}%)`,
       );
+      const missingRateData = (message: string) => {
+        this.logger.error(message);
+        return new MissingRateDataException(message, [
+          {
+            code: 'RATE_DATA_MISSING',
+            message,
+            ...(componentPath && {
+              path: `${componentPath}.resourceModel[${resourceIndex}].location`,
+            }),
+          },
+        ]);
+      };
       // Get blend rate for this location and complexity
       const blendRate = blendRates[location]?.[complexity];
 
       if (!blendRate) {
-        const errorMsg = `Blend rate not found for location "${location}" at complexity "${complexity}"`;
-        this.logger.error(errorMsg);
-        throw new Error(errorMsg);
+        throw missingRateData(
+          `Blend rate not found for location "${location}" at complexity "${complexity}"`,
+        );
+      }
+
+      // A registered location with a blend rate may still have no effort
+      // hours for this component
+      const effortDays = effortHours[location];
+      if (effortDays === undefined) {
+        throw missingRateData(
+          `Component ${component.name} has no effort hours for location "${location}" at complexity "${complexity}"`,
+        );
       }
 
       const workingHours = this.getWorkingHoursPerLocation(location);
 
       const effortsHrForLocation =
-        (allocation / 100) * workingHours * effortHours[location];
+        (allocation / 100) * workingHours * effortDays;
 
       const amount = Number((effortsHrForLocation * blendRate).toFixed(2));
 
@@ -186,6 +674,7 @@ export abstract class BaseCalculator implements CostCalculator {
       description: `Development effort for ${component.name} at ${complexity} complexity`,
       isError: false,
       errorMessage: '',
+      complexity,
       effortHours: totalEffortHours,
       effortHoursDescription: `Total: ${totalEffortHours.toFixed(2)} hours across all locations`,
       effortBreakdown,
@@ -200,6 +689,163 @@ export abstract class BaseCalculator implements CostCalculator {
     return breakdown.reduce((sum, item) => sum + item.amount, 0);
   }
 
+  /**
+   * Scale the effort-based lines of a build cost for what-if changes to
+   * blend rates by location and effort by component. Cost is linear in
+   * both, so the lines are scaled rather than priced again.
+   */
+  private applyAdjustments(
+    buildCost: { total: number; breakdown: CostBreakdown[] },
+    adjustments?: CostAdjustments,
+  ): { total: number; breakdown: CostBreakdown[] } {
+    if (!adjustments) {
+      return buildCost;
+    }
+    const factor = (percent?: number) => 1 + (percent ?? 0) / 100;
+
+    const breakdown = buildCost.breakdown.map((item) => {
+      if (!item.effortBreakdown) {
+        return item;
+      }
+      const effortFactor = factor(
+        adjustments.efforts?.[item.costComponentName],
+      );
+      const effortBreakdown = item.effortBreakdown.map((line) => {
+        const rateFactor = factor(
+          adjustments.blendRates?.[line.deliveryLocation],
+        );
+        const blendRate = line.effortHours
+          ? (line.effortAmount / line.effortHours) * rateFactor
+          : 0;
+        const effortHours = line.effortHours * effortFactor;
+        return {
+          ...line,
+          effortHours,
+          effortAmount: Number(
+            (line.effortAmount * effortFactor * rateFactor).toFixed(2),
+          ),
+          effortHoursDescription: `${effortHours.toFixed(2)} hours in ${line.deliveryLocation} at ${Number(blendRate.toFixed(2))}/hour`,
+        };
+      });
+      const effortHours = effortBreakdown.reduce(
+        (sum, line) => sum + line.effortHours,
+        0,
+      );
+      return {
+        ...item,
+        amount: effortBreakdown.reduce(
+          (sum, line) => sum + line.effortAmount,
+          0,
+        ),
+        effortHours,
+        effortHoursDescription: `Total: ${effortHours.toFixed(2)} hours across all locations`,
+        effortBreakdown,
+      };
+    });
+
+    return { total: this.calculateTotalFromBreakdown(breakdown), breakdown };
+  }
+
+  /**
+   * Convert the amounts of a cost breakdown with an FX rate
+   */
+  private convertBreakdown(
+    breakdown: CostBreakdown[],
+    rate: number,
+  ): CostBreakdown[] {
+    const convert = (amount: number) => Number((amount * rate).toFixed(2));
+    return breakdown.map((item) => ({
+      ...item,
+      amount: convert(item.amount),
+      ...(item.effortBreakdown && {
+        effortBreakdown: item.effortBreakdown.map((effort) => ({
+          ...effort,
+          effortAmount: convert(effort.effortAmount),
+        })),
+      }),
+    }));
+  }
+
+  /**
+   * Estimate the distribution of the build cost, in the engine currency,
+   * from the three-point effort estimates of the priced components.
+   * Lines without a three-point estimate count at their point cost.
+   * @param rateCard - The rate card the request is priced with
+   * @returns undefined when no priced component has a three-point estimate
+   */
+  protected estimateBuildCostDistribution(
+    breakdown: CostBreakdown[],
+    rateCard: RateCard,
+  ): Distribution | undefined {
+    const components = this.getComponentEfforts(rateCard);
+    let mean = 0;
+    let variance = 0;
+    let hasRange = false;
+
+    for (const item of breakdown) {
+      const component = components.find(
+        (candidate) => candidate.name === item.costComponentName,
+      );
+      const complexity = item.complexity as ComplexityLevel;
+      const ranges = component?.effortRanges?.[complexity];
+      const efforts = component?.efforts[complexity];
+
+      if (item.effortBreakdown && ranges && efforts) {
+        for (const line of item.effortBreakdown) {
+          const range = ranges[line.deliveryLocation];
+          const pointEffort = efforts[line.deliveryLocation];
+          if (range && pointEffort) {
+            // Cost scales linearly with effort days at this location
+            const distribution = pertDistribution(
+              range,
+              line.effortAmount / pointEffort,
+            );
+            mean += distribution.mean;
+            variance += distribution.variance;
+            hasRange = true;
+          } else {
+            mean += line.effortAmount;
+          }
+        }
+      } else {
+        mean += item.amount;
+      }
+    }
+
+    return hasRange ? { mean, variance } : undefined;
+  }
+
+  /**
+   * Get the pricing layers for this asset from a rate card.
+   * A policy scoped to this asset replaces the system-wide policy.
+   */
+  protected getPricingLayers(rateCard: RateCard): PricingLayer[] {
+    const policies = rateCard.pricingPolicies ?? [];
+    const policy =
+      policies.find((item) => item.assetName === this.assetName) ??
+      policies.find((item) => !item.assetName);
+    return policy?.layers ?? [];
+  }
+
+  /**
+   * Convert a build cost distribution with an FX rate and report its percentiles
+   */
+  private toBuildCostConfidence(
+    distribution: Distribution,
+    rate: number,
+  ): BuildCostConfidence {
+    const converted = {
+      mean: distribution.mean * rate,
+      variance: distribution.variance * rate ** 2,
+    };
+    return {
+      method: 'PERT',
+      mean: Number(converted.mean.toFixed(2)),
+      standardDeviation: Number(Math.sqrt(converted.variance).toFixed(2)),
+      ...normalPercentiles(converted),
+    };
+  }
+
   /**
    * Get the asset name for this calculator
    * @returns The asset name for this calculator
@@ -208,12 +854,97 @@ export abstract class BaseCalculator implements CostCalculator {
     return this.assetName;
   }
 
+  /**
+   * Describe the asset for clients building cost requests: its components
+   * with the complexities and locations they can be priced at, its
+   * specificFields and a sample request
+   * @param asOfDate - Describe the rate card in effect on this date
+   */
+  public async getMetadata(asOfDate?: Date): Promise<AssetMetadata> {
+    const rateCard = await this.rateCardRepository.findRateCard(asOfDate);
+    const blendRates = this.findBlendRates(rateCard);
+    const components: ComponentMetadata[] = this.getComponentEfforts(
+      rateCard,
+    ).map((component) => {
+      const efforts = Object.entries(component.efforts).filter(
+        ([, hours]) => hours && Object.keys(hours).length > 0,
+      );
+      const locations = new Set(
+        efforts.flatMap(([, hours]) => Object.keys(hours ?? {})),
+      );
+      return {
+        name: component.name,
+        complexities: efforts.map(([complexity]) => complexity),
+        locations: [...locations].filter(
+          (location) =>
+            blendRates[location] &&
+            this.isConvertible(blendRates[location], asOfDate) &&
+            this.locationRegistry.findLocation(location),
+        ),
+      };
+    });
+
+    return {
+      assetName: this.assetName,
+      components,
+      locations: [
+        ...new Set(components.flatMap((component) => component.locations)),
+      ],
+      specificFields: describeSpecificFields(this.specificFieldsSchema),
+      runCostPeriod: this.runCostPeriod,
+      samplePayload: this.buildSamplePayload(components),
+    };
+  }
+
+  /**
+   * Build a request pricing every component that can be priced, at Medium
+   * when they all have it, otherwise at each one's first complexity
+   */
+  private buildSamplePayload(
+    components: ComponentMetadata[],
+  ): AssetCostRequest {
+    const priced = components.filter(
+      (component) =>
+        component.complexities.length > 0 && component.locations.length > 0,
+    );
+    const complexity = priced.every((component) =>
+      component.complexities.includes('Medium'),
+    )
+      ? 'Medium'
+      : undefined;
+    return {
+      assetName: this.assetName,
+      ...(complexity && { complexity }),
+      commonFields: { deploymentType: 'cloud' },
+      assetComponents: priced.map((component) => ({
+        name: component.name,
+        ...(!complexity && { complexity: component.complexities[0] }),
+        resourceModel: [{ location: component.locations[0], allocation: 100 }],
+      })),
+      specificFields: sampleSpecificFields(this.specificFieldsSchema),
+    };
+  }
+
+  /**
+   * Get the JSON Schema requests must match in specificFields
+   */
+  public getSpecificFieldsSchema(): SpecificFieldsSchema {
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      title: `${this.assetName} specificFields`,
+      ...this.specificFieldsSchema,
+    };
+  }
+
   /**
    * Abstract method to calculate build costs
    * To be implemented by subclasses
+   * @param rateCard - The rate card resolved once for the request, so every
+   * lookup prices with the version stamped on the response
    */
   protected abstract calculateBuildCost(
     request: AssetCostRequest,
+    rateCard: RateCard,
   ): Promise<{ total: number; breakdown: CostBreakdown[] }>;
 
   /**
@@ -239,19 +970,32 @@ export abstract class BaseCalculator implements CostCalculator {
     if (request.assetName !== this.assetName) {
       const errorMsg = `Invalid asset name: ${request.assetName}. This calculator supports: ${this.assetName}`;
       this.logger.error(errorMsg);
-      throw new Error(errorMsg);
+      throw new CostingValidationException(errorMsg);
     }
 
-    // Validate components
-    const validationErrors = this.validateComponents(request.assetComponents);
-    if (validationErrors.length > 0) {
-      const errorMsg = `Invalid request components: ${validationErrors.join(', ')}`;
+    // Validate the whole request up front so every problem is reported
+    const issues = this.findRequestIssues(request);
+    if (issues.length > 0) {
+      const errorMsg =
+        issues.length === 1
+          ? issues[0].message
+          : `Invalid cost request: ${issues.map((issue) => issue.message).join(', ')}`;
       this.logger.error(errorMsg);
-      throw new Error(errorMsg); // Consider a BadRequestException here
+      throw issues.every((issue) => issue.code === 'UNSUPPORTED_LOCATION')
+        ? new UnsupportedLocationException(errorMsg, issues)
+        : new CostingValidationException(errorMsg, issues);
     }
 
+    const rateCard = await this.rateCardRepository.findRateCard(
+      request.asOfDate,
+    );
+    this.logger.debug(`Using rate card version: ${rateCard.version}`);
+
     this.logger.debug('Calculating build cost...');
-    const buildCostResult = await this.calculateBuildCost(request);
+    const buildCostResult = this.applyAdjustments(
+      await this.calculateBuildCost(request, rateCard),
+      request.adjustments,
+    );
     this.logger.debug(`Build cost calculated: ${buildCostResult.total}`);
 
     this.logger.debug('Calculating run cost...');
@@ -260,23 +1004,74 @@ export abstract class BaseCalculator implements CostCalculator {
       `Run cost calculated: ${runCostResult.total} (${runCostResult.period})`,
     );
 
+    const buildCostDistribution = this.estimateBuildCostDistribution(
+      buildCostResult.breakdown,
+      rateCard,
+    );
+
+    const currency = request.currency ?? ENGINE_CURRENCY;
+    const fxRate = this.fxRateService.getRate(
+      ENGINE_CURRENCY,
+      currency,
+      request.asOfDate,
+    );
+    this.logger.debug(
+      `Converting ${ENGINE_CURRENCY} to ${currency} at ${fxRate.rate} (FX table ${fxRate.tableVersion})`,
+    );
+
+    const buildTotal = Number((buildCostResult.total * fxRate.rate).toFixed(2));
+    const runTotal = Number((runCostResult.total * fxRate.rate).toFixed(2));
+    const pricingLayers = this.getPricingLayers(rateCard);
+    const pricingContext: PricingContext = {
+      complexity: this.getPricingComplexity(request),
+      riskLevel: request.riskLevel,
+      overrides: request.pricing,
+    };
+
     const response: AssetCostResponse = {
       assetName: this.assetName,
       buildCost: {
-        total: buildCostResult.total,
-        currency: 'USD', // Consider making currency dynamic or configurable
-        breakdown: buildCostResult.breakdown,
+        total: buildTotal,
+        currency,
+        breakdown: this.convertBreakdown(
+          buildCostResult.breakdown,
+          fxRate.rate,
+        ),
+        ...(buildCostDistribution && {
+          confidence: this.toBuildCostConfidence(
+            buildCostDistribution,
+            fxRate.rate,
+          ),
+        }),
       },
       runCost: {
-        total: runCostResult.total,
-        currency: 'USD', // Consider making currency dynamic or configurable
+        total: runTotal,
+        currency,
         period: runCostResult.period,
-        breakdown: runCostResult.breakdown,
+        breakdown: this.convertBreakdown(runCostResult.breakdown, fxRate.rate),
       },
       estimationDate: new Date(),
+      rateCardVersion: rateCard.version,
+      fxRate,
+      pricing: {
+        build: applyPricingLayers(
+          buildTotal,
+          pricingLayers,
+          'build',
+          pricingContext,
+        ),
+        run: applyPricingLayers(runTotal, pricingLayers, 'run', pricingContext),
+      },
+      ...(request.staffing && {
+        staffingPlan: buildStaffingPlan(
+          buildCostResult.breakdown,
+          request.staffing,
+          (location) => this.getWorkingHoursPerLocation(location),
+        ),
+      }),
     };
     this.logger.log(
-      `Cost calculation finished for asset: ${this.assetName}. Build: ${response.buildCost.total}, Run: ${response.runCost.total}`,
+      `Cost calculation finished for asset: ${this.assetName}. Build: ${response.buildCost.total} (sell ${response.pricing.build.sellPrice}), Run: ${response.runCost.total} (sell ${response.pricing.run.sellPrice})`,
     );
     return response;
   }
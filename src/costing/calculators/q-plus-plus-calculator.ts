@@ -4,179 +4,111 @@ import {
   CostBreakdown,
   AssetComponent,
 } from '../interfaces/costing.interface';
+import { AssetCalculator } from '../decorators/asset-calculator.decorator';
 import { BaseCalculator, ComplexityLevel } from './base-calculator';
+import { SpecificFieldsSchema } from '../interfaces/json-schema.interface';
+import { RateCard } from '../interfaces/rate-card.interface';
 
+/**
+ * specificFields of a Q++ request, as checked by its schema
+ */
 interface QPlusPlusSpecificFields {
-  userCount: number;
-  modules: string[];
-  dataIntegrations: number;
-  storageRequirement: 'small' | 'medium' | 'large';
+  userCount?: number;
+  modules?: string[];
+  dataIntegrations?: number;
+  storageRequirement?: 'small' | 'medium' | 'large';
   complexity?: ComplexityLevel;
   databaseSize?: 'small' | 'medium' | 'large';
 }
 
 @Injectable()
+@AssetCalculator('QPlusPlus')
 export class QPlusPlusCalculator extends BaseCalculator {
   // Initialize logger for this specific calculator
   protected readonly logger = new Logger(QPlusPlusCalculator.name);
 
   protected assetName = 'QPlusPlus';
 
-  /**
-   * Q++-specific location rates in USD
-   */
-  private getLocationRates(): Record<string, number> {
-    // Logging might be excessive here unless debugging rates
-    return {
-      US: 20000,
-      EU: 22000,
-      APAC: 18000,
-      UK: 24000,
-      LATAM: 15000,
-    };
-  }
-
-  /**
-   * Get blend rates for all locations
-   * In a real implementation, this would fetch from MongoDB
-   */
-  private getBlendRates(): Record<string, Record<ComplexityLevel, number>> {
-    // Logging might be excessive here unless debugging rates
-    // Sample blend rates data structure (location -> complexity -> hourly rate)
-    return {
-      Australia: {
-        xSmall: 63,
-        Small: 63,
-        Medium: 65,
-        Large: 68,
-        xLarge: 72,
-      },
-      India: {
-        xSmall: 14,
-        Small: 14,
-        Medium: 15,
-        Large: 16,
-        xLarge: 17,
+  protected specificFieldsSchema: SpecificFieldsSchema = {
+    type: 'object',
+    properties: {
+      userCount: {
+        type: 'integer',
+        description: 'Number of Q++ users',
+        minimum: 0,
       },
-      US: {
-        xSmall: 75,
-        Small: 75,
-        Medium: 80,
-        Large: 85,
-        xLarge: 90,
+      modules: {
+        type: 'array',
+        description: 'Q++ modules to enable',
+        items: { type: 'string' },
       },
-      EU: {
-        xSmall: 70,
-        Small: 70,
-        Medium: 75,
-        Large: 80,
-        xLarge: 85,
+      dataIntegrations: {
+        type: 'integer',
+        description: 'Number of data integrations',
+        minimum: 0,
       },
-      APAC: {
-        xSmall: 60,
-        Small: 60,
-        Medium: 65,
-        Large: 70,
-        xLarge: 75,
+      storageRequirement: {
+        type: 'string',
+        enum: ['small', 'medium', 'large'],
       },
-      UK: {
-        xSmall: 80,
-        Small: 80,
-        Medium: 85,
-        Large: 90,
-        xLarge: 95,
+      complexity: {
+        type: 'string',
+        description: 'Deprecated, use the request-level complexity',
+        enum: ['xSmall', 'Small', 'Medium', 'Large', 'xLarge'],
       },
-      LATAM: {
-        xSmall: 50,
-        Small: 50,
-        Medium: 55,
-        Large: 60,
-        xLarge: 65,
+      databaseSize: {
+        type: 'string',
+        description: 'Adds database setup and hosting cost when set',
+        enum: ['small', 'medium', 'large'],
       },
-    };
-  }
+    },
+  };
 
   /**
-   * Q++ specific effort hours for different components and complexity levels
-   * In a real implementation, this would fetch from MongoDB
-   * @throws Error if effort hours for the component and complexity are not found
+   * Q++ prices components without a complexity at Medium
    */
-  private getEffortHours(
-    componentName: string,
-    complexity: ComplexityLevel,
-  ): Record<string, number> {
-    this.logger.debug(
-      `Getting effort hours for Q++ component: ${componentName}, complexity: ${complexity}`,
-    );
-    // Sample effort hours for Q++ components
-    const effortHoursDb: Record<
-      string,
-      Record<ComplexityLevel, Record<string, number>>
-    > = {
-      Frontend: {
-        xSmall: { India: 25, US: 20, EU: 22, APAC: 24 },
-        Small: { India: 35, US: 30, EU: 32, APAC: 34 },
-        Medium: { India: 45, US: 40, EU: 42, APAC: 44 },
-        Large: { India: 55, US: 50, EU: 52, APAC: 54 },
-        xLarge: { India: 65, US: 60, EU: 62, APAC: 64 },
-      },
-      Backend: {
-        xSmall: { India: 30, US: 25, EU: 27, APAC: 29 },
-        Small: { India: 40, US: 35, EU: 37, APAC: 39 },
-        Medium: { India: 50, US: 45, EU: 47, APAC: 49 },
-        Large: { India: 60, US: 55, EU: 57, APAC: 59 },
-        xLarge: { India: 70, US: 65, EU: 67, APAC: 69 },
-      },
-      Database: {
-        xSmall: { India: 15, US: 10, EU: 12, APAC: 14 },
-        Small: { India: 25, US: 20, EU: 22, APAC: 24 },
-        Medium: { India: 35, US: 30, EU: 32, APAC: 34 },
-        Large: { India: 45, US: 40, EU: 42, APAC: 44 },
-        xLarge: { India: 55, US: 50, EU: 52, APAC: 54 },
-      },
-    };
-
-    // Get effort hours for the component
-    const component = effortHoursDb[componentName];
-    if (!component) {
-      const errorMsg = `No effort hours found for component "${componentName}"`;
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    const hours = component[complexity];
-    if (!hours) {
-      const errorMsg = `No effort hours found for component "${componentName}" at complexity "${complexity}"`;
-      this.logger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    this.logger.debug(
-      `Found Q++ effort hours for ${componentName} (${complexity}): ${JSON.stringify(hours)}`,
-    );
-    return hours;
+  protected getPricedComplexity(
+    component: AssetComponent,
+    request: AssetCostRequest,
+  ): ComplexityLevel | undefined {
+    return super.getPricedComplexity(component, {
+      ...request,
+      complexity: request.complexity || 'Medium',
+    });
   }
 
   /**
-   * Calculate effort-based costs for all components
+   * Calculate effort-based costs for all components, each priced at the
+   * complexity getPricedComplexity resolves for it
+   * @param rateCard - The rate card the request is priced with
    */
   private calculateEffortBasedCosts(
-    components: AssetComponent[],
-    complexity: ComplexityLevel,
+    request: AssetCostRequest,
+    rateCard: RateCard,
   ): CostBreakdown[] {
-    this.logger.debug(
-      `Calculating effort-based costs for Q++ components, Complexity: ${complexity}`,
-    );
-    // Get blend rates
-    const blendRates = this.getBlendRates();
-
+    this.logger.debug('Calculating effort-based costs for Q++ components');
     const costBreakdowns: CostBreakdown[] = [];
 
-    for (const component of components) {
-      this.logger.debug(`Processing component: ${component.name}`);
+    for (const [index, component] of request.assetComponents.entries()) {
+      const complexity = this.getPricedComplexity(
+        component,
+        request,
+      ) as ComplexityLevel;
+      this.logger.debug(
+        `Processing component: ${component.name}, Complexity: ${complexity}`,
+      );
       try {
+        const blendRates = this.getBlendRates(
+          rateCard,
+          request.asOfDate,
+          component.resourceModel.map(({ location }) => location),
+        );
         // Get effort hours for this component
-        const effortHours = this.getEffortHours(component.name, complexity);
+        const effortHours = this.getEffortHours(
+          component.name,
+          complexity,
+          rateCard,
+        );
 
         // Calculate cost using base calculator's method
         const costBreakdown = this.calculateEffortBasedComponentCost(
@@ -184,6 +116,7 @@ export class QPlusPlusCalculator extends BaseCalculator {
           complexity,
           blendRates,
           effortHours,
+          `assetComponents[${index}]`,
         );
 
         costBreakdowns.push(costBreakdown);
@@ -203,6 +136,7 @@ export class QPlusPlusCalculator extends BaseCalculator {
           description: `Error calculating effort-based cost for ${component.name}`,
           isError: true,
           errorMessage: message,
+          complexity,
         });
       }
     }
@@ -214,21 +148,15 @@ export class QPlusPlusCalculator extends BaseCalculator {
 
   protected calculateBuildCost(
     request: AssetCostRequest,
+    rateCard: RateCard,
   ): Promise<{ total: number; breakdown: CostBreakdown[] }> {
     this.logger.log(
       `Calculating Q++ build cost for asset: ${request.assetName}`,
     );
     const specificFields = request.specificFields as QPlusPlusSpecificFields;
 
-    // Use specified complexity or default to 'Medium'
-    const complexity = (request.complexity || 'Medium') as ComplexityLevel; // Get from top level
-    this.logger.debug(`Using complexity: ${complexity}`);
-
     // Calculate effort-based costs for all components
-    const costBreakdowns = this.calculateEffortBasedCosts(
-      request.assetComponents,
-      complexity,
-    );
+    const costBreakdowns = this.calculateEffortBasedCosts(request, rateCard);
 
     // Add database cost if specified
     if (specificFields?.databaseSize) {
@@ -3,9 +3,11 @@ import {
   AssetCostRequest,
   CostBreakdown,
 } from '../interfaces/costing.interface';
+import { AssetCalculator } from '../decorators/asset-calculator.decorator';
 import { BaseCalculator } from './base-calculator';
 
 @Injectable()
+@AssetCalculator('SCP')
 export class ScpCalculator extends BaseCalculator {
   protected readonly logger = new Logger(ScpCalculator.name);
 
@@ -0,0 +1,295 @@
+import { Logger } from '@nestjs/common';
+import {
+  AssetCostRequest,
+  CostBreakdown,
+  AssetComponent,
+} from '../interfaces/costing.interface';
+import { AssetSpec, RunCostItemSpec } from '../interfaces/asset-spec.interface';
+import { ComponentEffort, RateCard } from '../interfaces/rate-card.interface';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { LocationRegistryService } from '../services/location-registry.service';
+import { FxRateService } from '../services/fx-rate.service';
+import {
+  CompiledFormula,
+  FormulaContext,
+  FormulaError,
+  compileFormula,
+  evaluateNumericFormula,
+} from '../utils/formula.util';
+import {
+  BaseCalculator,
+  COMPLEXITY_LEVELS,
+  ComplexityLevel,
+} from './base-calculator';
+import {
+  CostingIssue,
+  CostingValidationException,
+} from '../exceptions/costing.exception';
+
+/**
+ * commonFields run-cost formulas can read by name
+ */
+const COMMON_FIELDS = ['deploymentType', 'region', 'supportLevel'];
+
+/**
+ * Generic calculator for assets defined by an AssetSpec.
+ * Build cost is effort-based using the spec's effort tables; run cost
+ * is the sum of the spec's run-cost line items.
+ */
+export class SpecCalculator extends BaseCalculator {
+  protected readonly logger: Logger;
+
+  protected assetName: string;
+
+  private readonly formulas = new Map<RunCostItemSpec, CompiledFormula>();
+
+  constructor(
+    private readonly spec: AssetSpec,
+    rateCardRepository: RateCardRepository,
+    locationRegistry: LocationRegistryService,
+    fxRateService: FxRateService,
+  ) {
+    super(rateCardRepository, locationRegistry, fxRateService);
+    this.assetName = spec.name;
+    this.logger = new Logger(`${SpecCalculator.name}:${spec.name}`);
+    this.runCostPeriod = spec.runCost.period;
+    this.specificFieldsSchema = {
+      type: 'object',
+      properties: Object.fromEntries(
+        (spec.specificFields ?? []).map((field) => [
+          field.name,
+          { type: field.type, description: field.description },
+        ]),
+      ),
+      required: (spec.specificFields ?? [])
+        .filter((field) => field.required)
+        .map((field) => field.name),
+    };
+    for (const item of spec.runCost.items) {
+      if (item.formula) {
+        this.formulas.set(item, compileFormula(item.formula));
+      }
+    }
+  }
+
+  /**
+   * Get the asset spec this calculator prices
+   */
+  getSpec(): AssetSpec {
+    return this.spec;
+  }
+
+  /**
+   * Effort tables come from the asset spec rather than the rate card
+   */
+  protected getComponentEfforts(): ComponentEffort[] {
+    return this.spec.components;
+  }
+
+  /**
+   * Calculate costs for one component based on effort hours
+   * @param rateCard - The rate card the request is priced with
+   * @param asOfDate - Convert with the FX table in effect on this date
+   * @param componentPath - Path of the component in the request
+   */
+  protected calculateEffortBasedCosts(
+    component: AssetComponent,
+    complexity: ComplexityLevel,
+    rateCard: RateCard,
+    asOfDate?: Date,
+    componentPath?: string,
+  ): CostBreakdown {
+    try {
+      const blendRates = this.getBlendRates(
+        rateCard,
+        asOfDate,
+        component.resourceModel.map(({ location }) => location),
+      );
+      const effortHours = this.getEffortHours(
+        component.name,
+        complexity,
+        rateCard,
+      );
+
+      return this.calculateEffortBasedComponentCost(
+        component,
+        complexity,
+        blendRates,
+        effortHours,
+        componentPath,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Error in calculateEffortBasedCosts for ${component.name}: ${message}`,
+      );
+      return {
+        costComponentName: component.name,
+        amount: 0,
+        description: `Error calculating costs for ${component.name}`,
+        isError: true,
+        errorMessage: message,
+        complexity,
+      };
+    }
+  }
+
+  /**
+   * Calculate build cost from the spec's effort tables
+   */
+  protected calculateBuildCost(
+    request: AssetCostRequest,
+    rateCard: RateCard,
+  ): Promise<{ total: number; breakdown: CostBreakdown[] }> {
+    this.logger.log(`Calculating build cost for asset: ${request.assetName}`);
+    // Complexities were checked by validateRequest
+    const complexities = request.assetComponents.map(
+      (component) =>
+        this.resolveComplexity(
+          component,
+          request.complexity,
+        ) as ComplexityLevel,
+    );
+
+    const breakdown = request.assetComponents.map((component, index) =>
+      this.calculateEffortBasedCosts(
+        component,
+        complexities[index],
+        rateCard,
+        request.asOfDate,
+        `assetComponents[${index}]`,
+      ),
+    );
+
+    const total = this.calculateTotalFromBreakdown(breakdown);
+    this.logger.log(`${this.assetName} build cost calculated: ${total}`);
+    return Promise.resolve({ total, breakdown });
+  }
+
+  /**
+   * Calculate run cost from the spec's run-cost line items
+   * @throws CostingValidationException if a formula cannot be evaluated
+   * with the request's fields
+   */
+  protected calculateRunCost(request: AssetCostRequest): Promise<{
+    total: number;
+    breakdown: CostBreakdown[];
+    period: 'monthly' | 'yearly';
+  }> {
+    this.logger.log(`Calculating run cost for asset: ${request.assetName}`);
+
+    const context = this.buildFormulaContext(request);
+    const breakdown: CostBreakdown[] = this.spec.runCost.items
+      .filter((item) => this.appliesTo(item, request))
+      .map((item) => {
+        const formula = this.formulas.get(item);
+        const unitAmount = formula
+          ? this.evaluateRunCostFormula(item, formula, context)
+          : (item.amount ?? 0);
+        const quantity = item.multiplyBy
+          ? Number(request.specificFields[item.multiplyBy])
+          : 1;
+        return {
+          costComponentName: item.name,
+          amount: unitAmount * quantity,
+          description:
+            item.description ??
+            (item.multiplyBy
+              ? `${quantity} ${item.multiplyBy} at ${unitAmount} each`
+              : item.name),
+          isError: false,
+        };
+      });
+
+    const total = this.calculateTotalFromBreakdown(breakdown);
+    this.logger.log(
+      `${this.assetName} run cost calculated: ${total} (${this.spec.runCost.period})`,
+    );
+    return Promise.resolve({
+      total,
+      breakdown,
+      period: this.spec.runCost.period,
+    });
+  }
+
+  /**
+   * Evaluate the formula of a run-cost item, reporting a failure against the
+   * first request field the formula reads
+   * @throws CostingValidationException if the formula cannot be evaluated
+   */
+  private evaluateRunCostFormula(
+    item: RunCostItemSpec,
+    formula: CompiledFormula,
+    context: FormulaContext,
+  ): number {
+    try {
+      return evaluateNumericFormula(formula, context);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) {
+        throw error;
+      }
+      const message = `Run-cost item ${item.name} cannot be priced: ${error.message}`;
+      const specificFields = (this.spec.specificFields ?? []).map(
+        (field) => field.name,
+      );
+      const path = (
+        formula.source
+          .replace(/'[^']*'|"[^"]*"/g, '')
+          .match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []
+      )
+        .map((name) => {
+          if (specificFields.includes(name)) {
+            return `specificFields.${name}`;
+          }
+          return COMMON_FIELDS.includes(name)
+            ? `commonFields.${name}`
+            : undefined;
+        })
+        .find(Boolean);
+      throw new CostingValidationException(message, [
+        { code: 'VALIDATION_FAILED', message, ...(path && { path }) },
+      ]);
+    }
+  }
+
+  /**
+   * Check the complexity each component is priced at
+   */
+  protected validateRequest(request: AssetCostRequest): CostingIssue[] {
+    return this.validateComplexities(request, COMPLEXITY_LEVELS);
+  }
+
+  /**
+   * Variables available to run-cost formulas: the spec's tables, then every
+   * common and specific field by name (declared but absent fields are null)
+   */
+  private buildFormulaContext(request: AssetCostRequest): FormulaContext {
+    const declaredFields = Object.fromEntries(
+      (this.spec.specificFields ?? []).map((field) => [field.name, null]),
+    );
+    return {
+      ...this.spec.tables,
+      region: null,
+      supportLevel: null,
+      ...request.commonFields,
+      ...declaredFields,
+      ...request.specificFields,
+      complexity: request.complexity ?? null,
+      commonFields: { ...request.commonFields },
+      specificFields: { ...request.specificFields },
+    };
+  }
+
+  /**
+   * Check the item's `when` conditions against the request fields
+   */
+  private appliesTo(item: RunCostItemSpec, request: AssetCostRequest): boolean {
+    return Object.entries(item.when ?? {}).every(([field, expected]) => {
+      const actual =
+        field in (request.commonFields ?? {})
+          ? request.commonFields[field as keyof typeof request.commonFields]
+          : request.specificFields?.[field];
+      return actual === expected;
+    });
+  }
+}
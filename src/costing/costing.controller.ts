@@ -1,33 +1,230 @@
-import { Body, Controller, Get, Post, ValidationPipe } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiExtraModels,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { CostingValidationPipe } from './pipes/costing-validation.pipe';
 import { CostingService } from './services/costing.service';
+import { LocationRegistryService } from './services/location-registry.service';
+import { PortfolioService } from './services/portfolio.service';
+import { TcoService } from './services/tco.service';
+import { ScenarioComparisonService } from './services/scenario-comparison.service';
+import { AllocationOptimizerService } from './services/allocation-optimizer.service';
+import { SensitivityService } from './services/sensitivity.service';
+import { DeliveryScheduleService } from './services/delivery-schedule.service';
+import { RequestValidationService } from './services/request-validation.service';
 import { CostRequestDto } from './dto/cost-request.dto';
 import {
   AssetCostResponseDto,
+  CostBreakdownDetailDto,
   CostBreakdownItemDto,
+  DetailedAssetCostResponseDto,
 } from './dto/cost-response.dto';
+import { CostViewQueryDto } from './dto/cost-view-query.dto';
+import { AssetMetadataDto } from './dto/asset-metadata.dto';
+import { ValidationReportDto } from './dto/validation-report.dto';
+import { LocationListResponseDto } from './dto/location.dto';
+import { PortfolioRequestDto, PortfolioResponseDto } from './dto/portfolio.dto';
+import { TcoRequestDto, TcoResponseDto } from './dto/tco.dto';
+import { CompareRequestDto, CompareResponseDto } from './dto/compare.dto';
+import { OptimizeRequestDto, OptimizeResponseDto } from './dto/optimize.dto';
+import {
+  SensitivityRequestDto,
+  SensitivityResponseDto,
+} from './dto/sensitivity.dto';
+import { ScheduleRequestDto, ScheduleResponseDto } from './dto/schedule.dto';
 import {
   AssetCostResponse,
   CostBreakdown,
 } from './interfaces/costing.interface';
+import { SpecificFieldsSchema } from './interfaces/json-schema.interface';
 
 @ApiTags('Costing')
 @Controller('costing')
 export class CostingController {
-  constructor(private readonly costingService: CostingService) {}
+  private readonly logger = new Logger(CostingController.name);
+
+  constructor(
+    private readonly costingService: CostingService,
+    private readonly locationRegistry: LocationRegistryService,
+    private readonly portfolioService: PortfolioService,
+    private readonly tcoService: TcoService,
+    private readonly scenarioComparisonService: ScenarioComparisonService,
+    private readonly allocationOptimizerService: AllocationOptimizerService,
+    private readonly sensitivityService: SensitivityService,
+    private readonly deliveryScheduleService: DeliveryScheduleService,
+    private readonly requestValidationService: RequestValidationService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Calculate cost for an asset' })
+  @ApiExtraModels(AssetCostResponseDto, DetailedAssetCostResponseDto)
   @ApiResponse({
     status: 200,
-    description: 'Cost calculation successful',
-    type: AssetCostResponseDto,
+    description:
+      'Cost calculation successful, in the compact or detailed shape picked by the view query parameter',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AssetCostResponseDto) },
+        { $ref: getSchemaPath(DetailedAssetCostResponseDto) },
+      ],
+    },
   })
   async calculateAssetCost(
-    @Body(new ValidationPipe({ transform: true })) request: CostRequestDto,
-  ): Promise<AssetCostResponseDto> {
+    @Body(new CostingValidationPipe()) request: CostRequestDto,
+    @Query(new CostingValidationPipe()) query: CostViewQueryDto,
+  ): Promise<AssetCostResponseDto | DetailedAssetCostResponseDto> {
     const response = await this.costingService.calculateAssetCost(request);
-    return this.mapToDto(response);
+    return query.view === 'detailed'
+      ? this.mapToDetailedDto(response)
+      : this.mapToDto(response);
+  }
+
+  @Post('portfolio')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Calculate costs for a portfolio of assets' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Per-asset results with rolled-up totals. Assets that fail are reported in place',
+    type: PortfolioResponseDto,
+  })
+  async calculatePortfolioCost(
+    @Body(new CostingValidationPipe()) request: PortfolioRequestDto,
+  ): Promise<PortfolioResponseDto> {
+    const response =
+      await this.portfolioService.calculatePortfolioCost(request);
+    return {
+      ...response,
+      assets: response.assets.map(({ result, ...asset }) => ({
+        ...asset,
+        ...(result && { result: this.mapToDto(result) }),
+      })),
+    };
+  }
+
+  @Post('tco')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Project the total cost of ownership of an asset' })
+  @ApiResponse({
+    status: 200,
+    description: 'Year-by-year build and run spend with NPV',
+    type: TcoResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Go-live falls outside the horizon',
+  })
+  async calculateTco(
+    @Body(new CostingValidationPipe()) request: TcoRequestDto,
+  ): Promise<TcoResponseDto> {
+    const response = await this.tcoService.calculateTco(request);
+    return { ...response, estimate: this.mapToDto(response.estimate) };
+  }
+
+  @Post('compare')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Compare scenarios against a base request' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Totals for each scenario with per-component and per-location deltas',
+    type: CompareResponseDto,
+  })
+  compareScenarios(
+    @Body(new CostingValidationPipe()) request: CompareRequestDto,
+  ): Promise<CompareResponseDto> {
+    return this.scenarioComparisonService.compare(request);
+  }
+
+  @Post('optimize')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Find the cheapest resource allocation under constraints',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cheapest allocation as a ready-to-post assetComponents',
+    type: OptimizeResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No allocation meets the constraints',
+  })
+  optimizeAllocation(
+    @Body(new CostingValidationPipe()) request: OptimizeRequestDto,
+  ): Promise<OptimizeResponseDto> {
+    return this.allocationOptimizerService.optimize(request);
+  }
+
+  @Post('sensitivity')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Rank the inputs that drive cost, for a tornado chart',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Build and run cost with each input at its low and high value, largest swing first',
+    type: SensitivityResponseDto,
+  })
+  analyseSensitivity(
+    @Body(new CostingValidationPipe())
+    request: SensitivityRequestDto,
+  ): Promise<SensitivityResponseDto> {
+    return this.sensitivityService.analyse(request);
+  }
+
+  @Post('schedule')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Plan delivery dates and monthly build spend for team sizes',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Delivery dates per component and location, with build spend by month',
+    type: ScheduleResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'A priced location has no team size',
+  })
+  scheduleDelivery(
+    @Body(new CostingValidationPipe()) request: ScheduleRequestDto,
+  ): Promise<ScheduleResponseDto> {
+    return this.deliveryScheduleService.schedule(request);
+  }
+
+  @Post('validate')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Check a cost request without pricing it',
+  })
+  @ApiBody({ type: CostRequestDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Every problem found, each with the path of the field at fault',
+    type: ValidationReportDto,
+  })
+  validateCostRequest(
+    @Body() request: Record<string, unknown>,
+  ): Promise<ValidationReportDto> {
+    return this.requestValidationService.validate(request);
   }
 
   @Get('asset-names')
@@ -51,6 +248,68 @@ export class CostingController {
     return { assetNames: this.costingService.getAvailableAssetNames() };
   }
 
+  @Get('assets')
+  @ApiOperation({
+    summary: 'Describe every asset for building cost requests',
+  })
+  @ApiResponse({ status: 200, type: [AssetMetadataDto] })
+  getAllAssetMetadata(): Promise<AssetMetadataDto[]> {
+    return this.costingService.getAllAssetMetadata();
+  }
+
+  @Get('assets/:assetName')
+  @ApiOperation({
+    summary:
+      'Describe an asset: its components, locations, specificFields and a sample request',
+  })
+  @ApiResponse({ status: 200, type: AssetMetadataDto })
+  @ApiResponse({ status: 404, description: 'Asset not found' })
+  getAssetMetadata(
+    @Param('assetName') assetName: string,
+  ): Promise<AssetMetadataDto> {
+    return this.costingService.getAssetMetadata(assetName);
+  }
+
+  @Get('assets/:assetName/schema')
+  @ApiOperation({
+    summary: 'Get the JSON Schema of the specificFields an asset expects',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'JSON Schema requests must match in specificFields',
+    schema: {
+      type: 'object',
+      example: {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        title: 'ATR specificFields',
+        type: 'object',
+        properties: {
+          licenseCount: { type: 'number', minimum: 1 },
+          hasCustomComponents: { type: 'boolean' },
+        },
+        required: ['licenseCount'],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Asset not found' })
+  getSpecificFieldsSchema(
+    @Param('assetName') assetName: string,
+  ): SpecificFieldsSchema {
+    return this.costingService.getSpecificFieldsSchema(assetName);
+  }
+
+  @Get('locations')
+  @ApiOperation({ summary: 'Get all delivery locations' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Delivery locations with working hours, currency and holiday calendar',
+    type: LocationListResponseDto,
+  })
+  getLocations(): LocationListResponseDto {
+    return { locations: this.locationRegistry.findAll() };
+  }
+
   private mapToDto(response: AssetCostResponse): AssetCostResponseDto {
     return {
       assetName: response.assetName,
@@ -60,6 +319,9 @@ export class CostingController {
         breakdown: this.convertBreakdownArrayToRecord(
           response.buildCost.breakdown,
         ),
+        ...(response.buildCost.confidence && {
+          confidence: response.buildCost.confidence,
+        }),
       },
       runCost: {
         total: response.runCost.total,
@@ -70,18 +332,76 @@ export class CostingController {
         ),
       },
       estimationDate: response.estimationDate,
+      rateCardVersion: response.rateCardVersion,
+      fxRate: response.fxRate,
+      pricing: response.pricing,
+      ...(response.staffingPlan && { staffingPlan: response.staffingPlan }),
+    };
+  }
+
+  private mapToDetailedDto(
+    response: AssetCostResponse,
+  ): DetailedAssetCostResponseDto {
+    return {
+      assetName: response.assetName,
+      buildCost: {
+        total: response.buildCost.total,
+        currency: response.buildCost.currency,
+        breakdown: response.buildCost.breakdown.map((item) =>
+          this.toBreakdownDetail(item),
+        ),
+        ...(response.buildCost.confidence && {
+          confidence: response.buildCost.confidence,
+        }),
+      },
+      runCost: {
+        total: response.runCost.total,
+        currency: response.runCost.currency,
+        period: response.runCost.period,
+        breakdown: response.runCost.breakdown.map((item) =>
+          this.toBreakdownDetail(item),
+        ),
+      },
+      estimationDate: response.estimationDate,
+      rateCardVersion: response.rateCardVersion,
+      fxRate: response.fxRate,
+      pricing: response.pricing,
+      ...(response.staffingPlan && { staffingPlan: response.staffingPlan }),
+    };
+  }
+
+  private toBreakdownDetail(item: CostBreakdown): CostBreakdownDetailDto {
+    return {
+      ...item,
+      ...(item.effortBreakdown && {
+        effortBreakdown: item.effortBreakdown.map((line) => ({ ...line })),
+      }),
     };
   }
 
+  /**
+   * Key breakdown items by component name. A repeated name gets a numbered
+   * suffix so that neither item is lost
+   */
   private convertBreakdownArrayToRecord(
     breakdownArray: CostBreakdown[],
   ): Record<string, CostBreakdownItemDto> {
     const result: Record<string, CostBreakdownItemDto> = {};
 
     for (const item of breakdownArray) {
-      result[item.costComponentName] = {
+      let key = item.costComponentName;
+      for (let count = 2; Object.hasOwn(result, key); count += 1) {
+        key = `${item.costComponentName} (${count})`;
+      }
+      if (key !== item.costComponentName) {
+        this.logger.warn(
+          `Breakdown item ${item.costComponentName} appears more than once; returning it as ${key}`,
+        );
+      }
+      result[key] = {
         amount: item.amount,
         description: item.description,
+        ...(item.complexity && { complexity: item.complexity }),
       };
     }
 
@@ -1,32 +1,62 @@
-import { Module, OnModuleInit } from '@nestjs/common';
+import { Module } from '@nestjs/common';
+import { APP_FILTER, DiscoveryModule } from '@nestjs/core';
 import { CostingController } from './costing.controller';
+import { BlendRateAdminController } from './blend-rate-admin.controller';
+import { AssetCatalogAdminController } from './asset-catalog-admin.controller';
+import { PluginAdminController } from './plugin-admin.controller';
 import { CostingService } from './services/costing.service';
+import { BlendRateAdminService } from './services/blend-rate-admin.service';
+import { AssetCatalogAdminService } from './services/asset-catalog-admin.service';
+import { LocationRegistryService } from './services/location-registry.service';
+import { FxRateService } from './services/fx-rate.service';
+import { AssetSpecService } from './services/asset-spec.service';
+import { CalculatorDiscoveryService } from './services/calculator-discovery.service';
+import { PluginLoaderService } from './services/plugin-loader.service';
+import { PortfolioService } from './services/portfolio.service';
+import { TcoService } from './services/tco.service';
+import { ScenarioComparisonService } from './services/scenario-comparison.service';
+import { AllocationOptimizerService } from './services/allocation-optimizer.service';
+import { SensitivityService } from './services/sensitivity.service';
+import { HolidayCalendarService } from './services/holiday-calendar.service';
+import { DeliveryScheduleService } from './services/delivery-schedule.service';
+import { RequestValidationService } from './services/request-validation.service';
 import { AtrCalculator } from './calculators/atr-calculator';
 import { QPlusPlusCalculator } from './calculators/q-plus-plus-calculator';
 import { ScpCalculator } from './calculators/scp-calculator';
+import { rateCardRepositoryProvider } from './repositories/rate-card-repository.provider';
+import { CostingExceptionFilter } from './filters/costing-exception.filter';
 
 @Module({
-  controllers: [CostingController],
+  imports: [DiscoveryModule],
+  controllers: [
+    CostingController,
+    BlendRateAdminController,
+    AssetCatalogAdminController,
+    PluginAdminController,
+  ],
   providers: [
     CostingService,
+    rateCardRepositoryProvider,
+    LocationRegistryService,
+    FxRateService,
+    AssetSpecService,
+    CalculatorDiscoveryService,
+    PluginLoaderService,
+    PortfolioService,
+    TcoService,
+    ScenarioComparisonService,
+    AllocationOptimizerService,
+    SensitivityService,
+    HolidayCalendarService,
+    DeliveryScheduleService,
+    RequestValidationService,
+    BlendRateAdminService,
+    AssetCatalogAdminService,
     AtrCalculator,
     QPlusPlusCalculator,
     ScpCalculator,
+    { provide: APP_FILTER, useClass: CostingExceptionFilter },
   ],
   exports: [CostingService],
 })
-export class CostingModule implements OnModuleInit {
-  constructor(
-    private readonly costingService: CostingService,
-    private readonly atrCalculator: AtrCalculator,
-    private readonly qPlusPlusCalculator: QPlusPlusCalculator,
-    private readonly scpCalculator: ScpCalculator,
-  ) {}
-
-  onModuleInit() {
-    // Register all calculators
-    this.costingService.registerCalculator(this.atrCalculator);
-    this.costingService.registerCalculator(this.qPlusPlusCalculator);
-    this.costingService.registerCalculator(this.scpCalculator);
-  }
-}
+export class CostingModule {}
@@ -0,0 +1,25 @@
+import { FxRateTable } from '../interfaces/fx-rate.interface';
+
+/**
+ * Currency the calculators price in before converting to the requested currency
+ */
+export const ENGINE_CURRENCY = 'USD';
+
+/**
+ * FX tables used when no FX_RATES_FILE is configured
+ */
+export const DEFAULT_FX_RATE_TABLES: FxRateTable[] = [
+  {
+    version: '2025-01',
+    asOfDate: '2025-01-01',
+    baseCurrency: 'USD',
+    rates: {
+      USD: 1,
+      AUD: 1.61,
+      INR: 85.6,
+      EUR: 0.96,
+      GBP: 0.8,
+      SGD: 1.36,
+    },
+  },
+];
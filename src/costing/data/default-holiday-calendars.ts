@@ -0,0 +1,160 @@
+import { HolidayCalendar } from '../interfaces/holiday-calendar.interface';
+
+/**
+ * Public holidays for 2025 and 2026, used when no HOLIDAY_CALENDARS_FILE
+ * is configured
+ */
+export const DEFAULT_HOLIDAY_CALENDARS: HolidayCalendar[] = [
+  {
+    code: 'AU',
+    holidays: [
+      '2025-01-01',
+      '2025-01-27',
+      '2025-04-18',
+      '2025-04-21',
+      '2025-04-25',
+      '2025-06-09',
+      '2025-12-25',
+      '2025-12-26',
+      '2026-01-01',
+      '2026-01-26',
+      '2026-04-03',
+      '2026-04-06',
+      '2026-06-08',
+      '2026-12-25',
+      '2026-12-28',
+    ],
+  },
+  {
+    code: 'IN',
+    holidays: [
+      '2025-01-26',
+      '2025-03-14',
+      '2025-08-15',
+      '2025-10-02',
+      '2025-10-20',
+      '2025-12-25',
+      '2026-01-26',
+      '2026-03-04',
+      '2026-08-15',
+      '2026-10-02',
+      '2026-11-08',
+      '2026-12-25',
+    ],
+  },
+  {
+    code: 'US',
+    holidays: [
+      '2025-01-01',
+      '2025-01-20',
+      '2025-02-17',
+      '2025-05-26',
+      '2025-06-19',
+      '2025-07-04',
+      '2025-09-01',
+      '2025-10-13',
+      '2025-11-11',
+      '2025-11-27',
+      '2025-12-25',
+      '2026-01-01',
+      '2026-01-19',
+      '2026-02-16',
+      '2026-05-25',
+      '2026-06-19',
+      '2026-07-03',
+      '2026-09-07',
+      '2026-10-12',
+      '2026-11-11',
+      '2026-11-26',
+      '2026-12-25',
+    ],
+  },
+  {
+    code: 'EU',
+    holidays: [
+      '2025-01-01',
+      '2025-04-18',
+      '2025-04-21',
+      '2025-05-01',
+      '2025-12-25',
+      '2025-12-26',
+      '2026-01-01',
+      '2026-04-03',
+      '2026-04-06',
+      '2026-05-01',
+      '2026-12-25',
+      '2026-12-26',
+    ],
+  },
+  {
+    code: 'SG',
+    holidays: [
+      '2025-01-01',
+      '2025-01-29',
+      '2025-01-30',
+      '2025-03-31',
+      '2025-04-18',
+      '2025-05-01',
+      '2025-05-12',
+      '2025-06-07',
+      '2025-08-09',
+      '2025-10-20',
+      '2025-12-25',
+      '2026-01-01',
+      '2026-02-17',
+      '2026-02-18',
+      '2026-03-21',
+      '2026-04-03',
+      '2026-05-01',
+      '2026-05-27',
+      '2026-05-31',
+      '2026-08-09',
+      '2026-11-08',
+      '2026-12-25',
+    ],
+  },
+  {
+    code: 'GB',
+    holidays: [
+      '2025-01-01',
+      '2025-04-18',
+      '2025-04-21',
+      '2025-05-05',
+      '2025-05-26',
+      '2025-08-25',
+      '2025-12-25',
+      '2025-12-26',
+      '2026-01-01',
+      '2026-04-03',
+      '2026-04-06',
+      '2026-05-04',
+      '2026-05-25',
+      '2026-08-31',
+      '2026-12-25',
+      '2026-12-28',
+    ],
+  },
+  {
+    code: 'BR',
+    holidays: [
+      '2025-01-01',
+      '2025-03-03',
+      '2025-03-04',
+      '2025-04-18',
+      '2025-04-21',
+      '2025-05-01',
+      '2025-06-19',
+      '2025-11-20',
+      '2025-12-25',
+      '2026-01-01',
+      '2026-02-16',
+      '2026-02-17',
+      '2026-04-03',
+      '2026-04-21',
+      '2026-05-01',
+      '2026-06-04',
+      '2026-11-20',
+      '2026-12-25',
+    ],
+  },
+];
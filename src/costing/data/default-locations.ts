@@ -0,0 +1,56 @@
+import { DeliveryLocation } from '../interfaces/location.interface';
+
+/**
+ * Location registry used when no LOCATIONS_FILE is configured
+ */
+export const DEFAULT_LOCATIONS: DeliveryLocation[] = [
+  {
+    name: 'Australia',
+    displayName: 'Australia',
+    workingHoursPerDay: 8,
+    currency: 'AUD',
+    holidayCalendar: 'AU',
+  },
+  {
+    name: 'India',
+    displayName: 'India',
+    workingHoursPerDay: 9,
+    currency: 'INR',
+    holidayCalendar: 'IN',
+  },
+  {
+    name: 'US',
+    displayName: 'United States',
+    workingHoursPerDay: 8,
+    currency: 'USD',
+    holidayCalendar: 'US',
+  },
+  {
+    name: 'EU',
+    displayName: 'European Union',
+    workingHoursPerDay: 8,
+    currency: 'EUR',
+    holidayCalendar: 'EU',
+  },
+  {
+    name: 'APAC',
+    displayName: 'Asia Pacific',
+    workingHoursPerDay: 8,
+    currency: 'SGD',
+    holidayCalendar: 'SG',
+  },
+  {
+    name: 'UK',
+    displayName: 'United Kingdom',
+    workingHoursPerDay: 7.5,
+    currency: 'GBP',
+    holidayCalendar: 'GB',
+  },
+  {
+    name: 'LATAM',
+    displayName: 'Latin America',
+    workingHoursPerDay: 8,
+    currency: 'USD',
+    holidayCalendar: 'BR',
+  },
+];
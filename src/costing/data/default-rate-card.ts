@@ -0,0 +1,137 @@
+import { RateCard } from '../interfaces/rate-card.interface';
+
+/**
+ * Rate card used when no RATE_CARD_FILE is configured
+ */
+export const DEFAULT_RATE_CARD: RateCard = {
+  version: '2025.1',
+  effectiveFrom: '2025-01-01',
+  blendRates: [
+    {
+      location: 'Australia',
+      rates: { xSmall: 63, Small: 63, Medium: 65, Large: 68, xLarge: 72 },
+    },
+    {
+      location: 'India',
+      rates: { xSmall: 14, Small: 14, Medium: 15, Large: 16, xLarge: 17 },
+    },
+    {
+      location: 'US',
+      rates: { xSmall: 75, Small: 75, Medium: 80, Large: 85, xLarge: 90 },
+    },
+    {
+      location: 'EU',
+      rates: { xSmall: 70, Small: 70, Medium: 75, Large: 80, xLarge: 85 },
+    },
+    {
+      location: 'APAC',
+      rates: { xSmall: 60, Small: 60, Medium: 65, Large: 70, xLarge: 75 },
+    },
+    {
+      location: 'UK',
+      rates: { xSmall: 80, Small: 80, Medium: 85, Large: 90, xLarge: 95 },
+    },
+    {
+      location: 'LATAM',
+      rates: { xSmall: 50, Small: 50, Medium: 55, Large: 60, xLarge: 65 },
+    },
+    {
+      location: 'Australia',
+      assetName: 'ATR',
+      rates: { xSmall: 48, Small: 49, Medium: 52, Large: 53, xLarge: 55 },
+    },
+  ],
+  assets: [
+    {
+      name: 'ATR',
+      components: [
+        {
+          name: 'ignition',
+          efforts: {
+            xSmall: { Australia: 19.39, India: 21.14 },
+            Small: { Australia: 21.34, India: 23.1 },
+            Medium: { Australia: 31.25, India: 32.8 },
+            Large: { Australia: 41.2, India: 42.6 },
+            xLarge: { Australia: 50.91, India: 52.47 },
+          },
+          effortRanges: {
+            Medium: {
+              Australia: { optimistic: 26, mostLikely: 31.25, pessimistic: 42 },
+              India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 },
+            },
+            Large: {
+              Australia: { optimistic: 34, mostLikely: 41.2, pessimistic: 56 },
+              India: { optimistic: 35, mostLikely: 42.6, pessimistic: 58 },
+            },
+          },
+        },
+        {
+          name: 'automation configuration',
+          efforts: {
+            xSmall: { Australia: 21.35, India: 10 },
+            Small: { Australia: 20.92, India: 10 },
+            Medium: { Australia: 17.76, India: 10 },
+            Large: { Australia: 15.52, India: 10 },
+            xLarge: { Australia: 13.11, India: 10 },
+          },
+        },
+      ],
+    },
+    {
+      name: 'QPlusPlus',
+      components: [
+        {
+          name: 'Frontend',
+          efforts: {
+            xSmall: { India: 25, US: 20, EU: 22, APAC: 24 },
+            Small: { India: 35, US: 30, EU: 32, APAC: 34 },
+            Medium: { India: 45, US: 40, EU: 42, APAC: 44 },
+            Large: { India: 55, US: 50, EU: 52, APAC: 54 },
+            xLarge: { India: 65, US: 60, EU: 62, APAC: 64 },
+          },
+        },
+        {
+          name: 'Backend',
+          efforts: {
+            xSmall: { India: 30, US: 25, EU: 27, APAC: 29 },
+            Small: { India: 40, US: 35, EU: 37, APAC: 39 },
+            Medium: { India: 50, US: 45, EU: 47, APAC: 49 },
+            Large: { India: 60, US: 55, EU: 57, APAC: 59 },
+            xLarge: { India: 70, US: 65, EU: 67, APAC: 69 },
+          },
+        },
+        {
+          name: 'Database',
+          efforts: {
+            xSmall: { India: 15, US: 10, EU: 12, APAC: 14 },
+            Small: { India: 25, US: 20, EU: 22, APAC: 24 },
+            Medium: { India: 35, US: 30, EU: 32, APAC: 34 },
+            Large: { India: 45, US: 40, EU: 42, APAC: 44 },
+            xLarge: { India: 55, US: 50, EU: 52, APAC: 54 },
+          },
+        },
+      ],
+    },
+  ],
+  pricingPolicies: [
+    {
+      layers: [
+        {
+          type: 'contingency',
+          name: 'Contingency',
+          percentByComplexity: {
+            xSmall: 5,
+            Small: 5,
+            Medium: 10,
+            Large: 15,
+            xLarge: 20,
+          },
+          percentByRisk: { low: 5, medium: 10, high: 20 },
+          appliesTo: ['build'],
+        },
+        { type: 'managementFee', name: 'Management fee', percent: 0 },
+        { type: 'margin', name: 'Delivery margin', percent: 20 },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,7 @@
+import { DiscoveryService } from '@nestjs/core';
+
+/**
+ * Marks a provider as the calculator for an asset so it is registered with
+ * CostingService at startup, e.g. `@AssetCalculator('ATR')`
+ */
+export const AssetCalculator = DiscoveryService.createDecorator<string>();
@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  AssetMetadata,
+  ComponentMetadata,
+  SpecificFieldMetadata,
+} from '../interfaces/asset-metadata.interface';
+import { AssetCostRequest } from '../interfaces/costing.interface';
+
+export class ComponentMetadataDto implements ComponentMetadata {
+  @ApiProperty({ example: 'ignition' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Complexity levels the component has effort data for',
+    example: ['Small', 'Medium', 'Large'],
+  })
+  complexities: string[];
+
+  @ApiProperty({
+    description: 'Delivery locations with both effort hours and a blend rate',
+    example: ['India', 'Australia'],
+  })
+  locations: string[];
+}
+
+export class SpecificFieldMetadataDto implements SpecificFieldMetadata {
+  @ApiProperty({ example: 'licenseCount' })
+  name: string;
+
+  @ApiProperty({
+    enum: ['number', 'integer', 'string', 'boolean', 'array'],
+    example: 'number',
+  })
+  type: SpecificFieldMetadata['type'];
+
+  @ApiProperty({ example: true })
+  required: boolean;
+
+  @ApiProperty({ example: 'Number of ATR licenses to run', required: false })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Allowed values, when restricted',
+    required: false,
+  })
+  enum?: (string | number | boolean)[];
+}
+
+export class AssetMetadataDto implements AssetMetadata {
+  @ApiProperty({ example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({ type: [ComponentMetadataDto] })
+  components: ComponentMetadataDto[];
+
+  @ApiProperty({
+    description: 'Every location at least one component can be delivered from',
+    example: ['India', 'Australia'],
+  })
+  locations: string[];
+
+  @ApiProperty({ type: [SpecificFieldMetadataDto] })
+  specificFields: SpecificFieldMetadataDto[];
+
+  @ApiProperty({ enum: ['monthly', 'yearly'], example: 'monthly' })
+  runCostPeriod: 'monthly' | 'yearly';
+
+  @ApiProperty({
+    description:
+      'A request pricing every component, ready to send to POST /costing',
+    example: {
+      assetName: 'ATR',
+      complexity: 'Medium',
+      commonFields: { deploymentType: 'cloud' },
+      assetComponents: [
+        {
+          name: 'ignition',
+          resourceModel: [{ location: 'India', allocation: 100 }],
+        },
+      ],
+      specificFields: { licenseCount: 1 },
+    },
+  })
+  samplePayload: AssetCostRequest;
+}
@@ -0,0 +1,94 @@
+import { Type } from 'class-transformer';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsISO4217CurrencyCode,
+  IsPositive,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ComplexityLevel } from '../calculators/base-calculator';
+import { BlendRate } from '../interfaces/rate-card.interface';
+import { RateCardVersionQueryDto } from './rate-card-version-query.dto';
+
+export class ComplexityRatesDto implements Record<ComplexityLevel, number> {
+  @ApiProperty({ description: 'Hourly rate at xSmall complexity', example: 14 })
+  @IsNumber()
+  @IsPositive()
+  xSmall: number;
+
+  @ApiProperty({ description: 'Hourly rate at Small complexity', example: 14 })
+  @IsNumber()
+  @IsPositive()
+  Small: number;
+
+  @ApiProperty({ description: 'Hourly rate at Medium complexity', example: 15 })
+  @IsNumber()
+  @IsPositive()
+  Medium: number;
+
+  @ApiProperty({ description: 'Hourly rate at Large complexity', example: 16 })
+  @IsNumber()
+  @IsPositive()
+  Large: number;
+
+  @ApiProperty({ description: 'Hourly rate at xLarge complexity', example: 17 })
+  @IsNumber()
+  @IsPositive()
+  xLarge: number;
+}
+
+export class UpdateBlendRateDto {
+  @ApiProperty({
+    description: 'Hourly rate for each of the five complexity levels',
+    type: ComplexityRatesDto,
+  })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ComplexityRatesDto)
+  rates: ComplexityRatesDto;
+}
+
+export class BlendRateDto extends UpdateBlendRateDto implements BlendRate {
+  @ApiProperty({
+    description: 'Delivery location name',
+    example: 'India',
+  })
+  @IsString()
+  @IsNotEmpty()
+  location: string;
+
+  @ApiProperty({
+    description:
+      'Asset the rate applies to. Omit for a system-wide rate used by every asset',
+    example: 'ATR',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  assetName?: string;
+
+  @ApiProperty({
+    description: 'ISO 4217 currency of the rates (defaults to USD)',
+    example: 'INR',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
+export class BlendRateQueryDto extends RateCardVersionQueryDto {
+  @ApiProperty({
+    description:
+      'Asset-specific rate to address. Omit to address the system-wide rate',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  assetName?: string;
+}
@@ -0,0 +1,193 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CostRequestDto, ResourceAllocationDto } from './cost-request.dto';
+import { ComplexityLevel } from '../calculators/base-calculator';
+import {
+  ComponentDelta,
+  LocationDelta,
+  ScenarioComparison,
+  ScenarioDeltas,
+  ScenarioOverride,
+  ScenarioTotals,
+} from '../interfaces/scenario.interface';
+
+export class ScenarioOverrideDto implements ScenarioOverride {
+  @ApiProperty({
+    description: 'Scenario name, unique within the comparison',
+    example: '70/30 onshore',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Resource model applied to every component instead of the base one',
+    type: [ResourceAllocationDto],
+    required: false,
+    example: [
+      { location: 'India', allocation: 70 },
+      { location: 'Australia', allocation: 30 },
+    ],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ResourceAllocationDto)
+  resourceModel?: ResourceAllocationDto[];
+
+  @ApiProperty({
+    description:
+      'Complexity level applied to the request and every component instead of the base ones',
+    enum: ['xSmall', 'Small', 'Medium', 'Large', 'xLarge'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['xSmall', 'Small', 'Medium', 'Large', 'xLarge'])
+  complexity?: ComplexityLevel;
+
+  @ApiProperty({
+    description: 'Specific fields merged over the base specific fields',
+    required: false,
+    example: { licenseCount: 50 },
+  })
+  @IsOptional()
+  @IsObject()
+  specificFields?: Record<string, any>;
+}
+
+export class CompareRequestDto {
+  @ApiProperty({
+    description: 'Request every scenario is compared against',
+    type: CostRequestDto,
+  })
+  @ValidateNested()
+  @Type(() => CostRequestDto)
+  base: CostRequestDto;
+
+  @ApiProperty({
+    description: 'Named variations of the base request',
+    type: [ScenarioOverrideDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ArrayUnique((scenario: ScenarioOverrideDto) => scenario?.name, {
+    message: 'scenarios must have unique names',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => ScenarioOverrideDto)
+  scenarios: ScenarioOverrideDto[];
+}
+
+export class ScenarioTotalsDto implements ScenarioTotals {
+  @ApiProperty({ example: 25000 })
+  buildCost: number;
+
+  @ApiProperty({ example: 12500 })
+  runCost: number;
+
+  @ApiProperty({ enum: ['monthly', 'yearly'], example: 'monthly' })
+  runCostPeriod: 'monthly' | 'yearly';
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+}
+
+export class ComponentDeltaDto implements ComponentDelta {
+  @ApiProperty({ example: 'ignition' })
+  componentName: string;
+
+  @ApiProperty({ description: 'Build cost in the base', example: 5000 })
+  baseAmount: number;
+
+  @ApiProperty({ description: 'Build cost in the scenario', example: 7000 })
+  amount: number;
+
+  @ApiProperty({ description: 'Scenario minus base', example: 2000 })
+  delta: number;
+}
+
+export class LocationDeltaDto implements LocationDelta {
+  @ApiProperty({ example: 'Australia' })
+  location: string;
+
+  @ApiProperty({ description: 'Build cost in the base', example: 1500 })
+  baseAmount: number;
+
+  @ApiProperty({ description: 'Build cost in the scenario', example: 4500 })
+  amount: number;
+
+  @ApiProperty({ description: 'Scenario minus base', example: 3000 })
+  delta: number;
+
+  @ApiProperty({ example: 25 })
+  baseEffortHours: number;
+
+  @ApiProperty({ example: 75 })
+  effortHours: number;
+
+  @ApiProperty({ example: 50 })
+  effortHoursDelta: number;
+}
+
+export class ScenarioDeltasDto implements ScenarioDeltas {
+  @ApiProperty({ description: 'Build cost difference', example: 2000 })
+  buildCost: number;
+
+  @ApiProperty({
+    description: 'Run cost difference, in the base run cost period',
+    example: 0,
+  })
+  runCost: number;
+
+  @ApiProperty({ type: [ComponentDeltaDto] })
+  components: ComponentDeltaDto[];
+
+  @ApiProperty({ type: [LocationDeltaDto] })
+  locations: LocationDeltaDto[];
+}
+
+export class ScenarioComparisonDto implements ScenarioComparison {
+  @ApiProperty({ example: '70/30 onshore' })
+  name: string;
+
+  @ApiProperty({ enum: ['success', 'failed'] })
+  status: 'success' | 'failed';
+
+  @ApiProperty({
+    description: 'Why the scenario could not be priced',
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({ type: ScenarioTotalsDto, required: false })
+  totals?: ScenarioTotalsDto;
+
+  @ApiProperty({ type: ScenarioDeltasDto, required: false })
+  deltas?: ScenarioDeltasDto;
+}
+
+export class CompareResponseDto {
+  @ApiProperty({ example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({ type: ScenarioTotalsDto })
+  base: ScenarioTotalsDto;
+
+  @ApiProperty({ type: [ScenarioComparisonDto] })
+  scenarios: ScenarioComparisonDto[];
+}
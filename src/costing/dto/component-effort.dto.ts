@@ -0,0 +1,172 @@
+import { Type } from 'class-transformer';
+import {
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ComplexityLevel } from '../calculators/base-calculator';
+import {
+  ComponentEffort,
+  EffortRange,
+} from '../interfaces/rate-card.interface';
+import { IsLocationHours } from '../validators/is-location-hours.validator';
+import { IsLocationEffortRanges } from '../validators/is-location-effort-ranges.validator';
+
+export class ComplexityEffortsDto
+  implements Partial<Record<ComplexityLevel, Record<string, number>>>
+{
+  @ApiPropertyOptional({
+    description: 'Effort by location at xSmall complexity',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { Australia: 31.25, India: 32.8 },
+  })
+  @IsOptional()
+  @IsLocationHours()
+  xSmall?: Record<string, number>;
+
+  @ApiPropertyOptional({
+    description: 'Effort by location at Small complexity',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { Australia: 31.25, India: 32.8 },
+  })
+  @IsOptional()
+  @IsLocationHours()
+  Small?: Record<string, number>;
+
+  @ApiPropertyOptional({
+    description: 'Effort by location at Medium complexity',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { Australia: 31.25, India: 32.8 },
+  })
+  @IsOptional()
+  @IsLocationHours()
+  Medium?: Record<string, number>;
+
+  @ApiPropertyOptional({
+    description: 'Effort by location at Large complexity',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { Australia: 31.25, India: 32.8 },
+  })
+  @IsOptional()
+  @IsLocationHours()
+  Large?: Record<string, number>;
+
+  @ApiPropertyOptional({
+    description: 'Effort by location at xLarge complexity',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { Australia: 31.25, India: 32.8 },
+  })
+  @IsOptional()
+  @IsLocationHours()
+  xLarge?: Record<string, number>;
+}
+
+/**
+ * OpenAPI schema of a three-point effort estimate
+ */
+const EFFORT_RANGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    optimistic: { type: 'number' },
+    mostLikely: { type: 'number' },
+    pessimistic: { type: 'number' },
+  },
+};
+
+export class ComplexityEffortRangesDto
+  implements Partial<Record<ComplexityLevel, Record<string, EffortRange>>>
+{
+  @ApiPropertyOptional({
+    description: 'Three-point effort by location at xSmall complexity',
+    type: 'object',
+    additionalProperties: EFFORT_RANGE_SCHEMA,
+    example: { India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 } },
+  })
+  @IsOptional()
+  @IsLocationEffortRanges()
+  xSmall?: Record<string, EffortRange>;
+
+  @ApiPropertyOptional({
+    description: 'Three-point effort by location at Small complexity',
+    type: 'object',
+    additionalProperties: EFFORT_RANGE_SCHEMA,
+    example: { India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 } },
+  })
+  @IsOptional()
+  @IsLocationEffortRanges()
+  Small?: Record<string, EffortRange>;
+
+  @ApiPropertyOptional({
+    description: 'Three-point effort by location at Medium complexity',
+    type: 'object',
+    additionalProperties: EFFORT_RANGE_SCHEMA,
+    example: { India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 } },
+  })
+  @IsOptional()
+  @IsLocationEffortRanges()
+  Medium?: Record<string, EffortRange>;
+
+  @ApiPropertyOptional({
+    description: 'Three-point effort by location at Large complexity',
+    type: 'object',
+    additionalProperties: EFFORT_RANGE_SCHEMA,
+    example: { India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 } },
+  })
+  @IsOptional()
+  @IsLocationEffortRanges()
+  Large?: Record<string, EffortRange>;
+
+  @ApiPropertyOptional({
+    description: 'Three-point effort by location at xLarge complexity',
+    type: 'object',
+    additionalProperties: EFFORT_RANGE_SCHEMA,
+    example: { India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 } },
+  })
+  @IsOptional()
+  @IsLocationEffortRanges()
+  xLarge?: Record<string, EffortRange>;
+}
+
+export class UpdateComponentEffortDto {
+  @ApiProperty({
+    description:
+      'Effort by complexity level and delivery location. Complexity levels without effort data cannot be priced',
+    type: ComplexityEffortsDto,
+  })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ComplexityEffortsDto)
+  efforts: ComplexityEffortsDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Three-point effort estimates by complexity level and delivery location, for confidence ranges. Existing ranges are kept when omitted',
+    type: ComplexityEffortRangesDto,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ComplexityEffortRangesDto)
+  effortRanges?: ComplexityEffortRangesDto;
+}
+
+export class ComponentEffortDto
+  extends UpdateComponentEffortDto
+  implements ComponentEffort
+{
+  @ApiProperty({
+    description: 'Component name',
+    example: 'ignition',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
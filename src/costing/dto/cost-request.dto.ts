@@ -11,14 +11,22 @@ import {
   Max,
   ArrayMinSize,
   IsNotEmpty,
+  IsDate,
+  IsISO4217CurrencyCode,
+  IsIn,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import {
   CommonFields,
   ResourceAllocation,
   AssetComponent,
+  CostAdjustments,
 } from '../interfaces/costing.interface';
 import { ComplexityLevel } from '../calculators/base-calculator';
+import { RiskLevel } from '../interfaces/pricing.interface';
+import { PricingOverridesDto } from './pricing.dto';
+import { StaffingOptionsDto } from './staffing.dto';
+import { IsPercentChangeMap } from '../validators/is-percent-change-map.validator';
 
 export enum DeploymentType {
   ON_PREMISE = 'onPremise',
@@ -92,6 +100,17 @@ export class AssetComponentDto implements AssetComponent {
   @IsNotEmpty()
   name: string;
 
+  @ApiProperty({
+    description:
+      'Complexity level for this component, overriding the request-level complexity',
+    enum: ['xSmall', 'Small', 'Medium', 'Large', 'xLarge'],
+    example: 'Large',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['xSmall', 'Small', 'Medium', 'Large', 'xLarge'])
+  complexity?: ComplexityLevel;
+
   @ApiProperty({
     description: 'Resource allocation model by location (must total 100%)',
     type: [ResourceAllocationDto],
@@ -113,6 +132,26 @@ export class AssetComponentDto implements AssetComponent {
   resourceModel: ResourceAllocationDto[];
 }
 
+export class CostAdjustmentsDto implements CostAdjustments {
+  @ApiProperty({
+    description: 'Percentage change to the blend rate of each location',
+    example: { India: 10 },
+    required: false,
+  })
+  @IsOptional()
+  @IsPercentChangeMap()
+  blendRates?: Record<string, number>;
+
+  @ApiProperty({
+    description: 'Percentage change to the effort of each component',
+    example: { ignition: -5 },
+    required: false,
+  })
+  @IsOptional()
+  @IsPercentChangeMap()
+  efforts?: Record<string, number>;
+}
+
 export class CostRequestDto {
   @ApiProperty({
     description: 'Name of asset to calculate cost for',
@@ -179,7 +218,7 @@ export class CostRequestDto {
 
   @ApiProperty({
     description:
-      'Asset-specific fields required for cost calculation. For run cost calculation, licenseCount is required.',
+      'Asset-specific fields, checked against the schema served by GET /costing/assets/{assetName}/schema before calculation',
     example: {
       licenseCount: 25,
       hasCustomComponents: true,
@@ -187,4 +226,69 @@ export class CostRequestDto {
   })
   @IsObject()
   specificFields: Record<string, any>;
+
+  @ApiProperty({
+    description:
+      'Price with the rate card that was in effect on this date (defaults to today)',
+    example: '2025-03-31',
+    required: false,
+    type: Date,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  asOfDate?: Date;
+
+  @ApiProperty({
+    description:
+      'ISO 4217 currency to express the estimate in (defaults to USD)',
+    example: 'AUD',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    description:
+      'Delivery risk, which sets the contingency percentage when the pricing policy has one for it',
+    enum: ['low', 'medium', 'high'],
+    example: 'medium',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['low', 'medium', 'high'])
+  riskLevel?: RiskLevel;
+
+  @ApiProperty({
+    description: 'Pricing layer percentages for this request only',
+    type: PricingOverridesDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PricingOverridesDto)
+  pricing?: PricingOverridesDto;
+
+  @ApiProperty({
+    description:
+      'What-if percentage changes to rate card blend rates and component efforts',
+    type: CostAdjustmentsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CostAdjustmentsDto)
+  adjustments?: CostAdjustmentsDto;
+
+  @ApiProperty({
+    description:
+      'Delivery window and utilisation to return a staffing plan for',
+    type: StaffingOptionsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StaffingOptionsDto)
+  staffing?: StaffingOptionsDto;
 }
@@ -1,5 +1,10 @@
-import { ApiProperty } from '@nestjs/swagger';
-// import { CostBreakdown } from '../interfaces/costing.interface'; // Unused import
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import {
+  CostBreakdown,
+  EffortBreakdown,
+} from '../interfaces/costing.interface';
+import { AssetPricingDto } from './pricing.dto';
+import { StaffingPlanDto } from './staffing.dto';
 
 export class CostBreakdownItemDto {
   @ApiProperty({
@@ -13,6 +18,13 @@ export class CostBreakdownItemDto {
     example: 'Base platform setup',
   })
   description: string;
+
+  @ApiProperty({
+    description: 'Complexity level the component was priced at',
+    example: 'Medium',
+    required: false,
+  })
+  complexity?: string;
 }
 
 export class CostCategoryDto {
@@ -36,12 +48,59 @@ export class CostCategoryDto {
       properties: {
         amount: { type: 'number' },
         description: { type: 'string' },
+        complexity: { type: 'string' },
       },
     },
   })
   breakdown: Record<string, CostBreakdownItemDto>;
 }
 
+export class BuildCostConfidenceDto {
+  @ApiProperty({
+    description: 'How the confidence range was estimated',
+    enum: ['PERT'],
+    example: 'PERT',
+  })
+  method: 'PERT';
+
+  @ApiProperty({ description: 'Expected build cost', example: 26120.5 })
+  mean: number;
+
+  @ApiProperty({
+    description: 'Standard deviation of the build cost',
+    example: 2180.4,
+  })
+  standardDeviation: number;
+
+  @ApiProperty({
+    description: 'Build cost with a 50% chance of not being exceeded',
+    example: 26120.5,
+  })
+  p50: number;
+
+  @ApiProperty({
+    description: 'Build cost with an 80% chance of not being exceeded',
+    example: 27955.56,
+  })
+  p80: number;
+
+  @ApiProperty({
+    description: 'Build cost with a 90% chance of not being exceeded',
+    example: 28914.88,
+  })
+  p90: number;
+}
+
+export class BuildCostDto extends CostCategoryDto {
+  @ApiProperty({
+    description:
+      'Build cost percentiles, when the rate card has three-point effort estimates',
+    type: BuildCostConfidenceDto,
+    required: false,
+  })
+  confidence?: BuildCostConfidenceDto;
+}
+
 export class RunCostDto extends CostCategoryDto {
   @ApiProperty({
     description: 'Frequency of the recurring costs',
@@ -51,6 +110,32 @@ export class RunCostDto extends CostCategoryDto {
   period: 'monthly' | 'yearly';
 }
 
+export class FxRateDto {
+  @ApiProperty({
+    description: 'Currency the calculators priced in',
+    example: 'USD',
+  })
+  fromCurrency: string;
+
+  @ApiProperty({
+    description: 'Currency of the estimate',
+    example: 'AUD',
+  })
+  toCurrency: string;
+
+  @ApiProperty({
+    description: 'Units of toCurrency per unit of fromCurrency',
+    example: 1.61,
+  })
+  rate: number;
+
+  @ApiProperty({
+    description: 'Version of the FX table the rate was taken from',
+    example: '2025-01',
+  })
+  tableVersion: string;
+}
+
 export class AssetCostResponseDto {
   @ApiProperty({
     description: 'Name of asset',
@@ -60,9 +145,9 @@ export class AssetCostResponseDto {
 
   @ApiProperty({
     description: 'One-time build costs',
-    type: CostCategoryDto,
+    type: BuildCostDto,
   })
-  buildCost: CostCategoryDto;
+  buildCost: BuildCostDto;
 
   @ApiProperty({
     description: 'Recurring run costs',
@@ -75,4 +160,127 @@ export class AssetCostResponseDto {
     type: Date,
   })
   estimationDate: Date;
+
+  @ApiProperty({
+    description: 'Version of the rate card used for the estimate',
+    example: '2025.1',
+  })
+  rateCardVersion: string;
+
+  @ApiProperty({
+    description: 'Exchange rate used to convert the estimate',
+    type: FxRateDto,
+  })
+  fxRate: FxRateDto;
+
+  @ApiProperty({
+    description:
+      'Cost turned into sell price by the pricing layers, with each uplift',
+    type: AssetPricingDto,
+  })
+  pricing: AssetPricingDto;
+
+  @ApiProperty({
+    description: 'People needed per location, when staffing was requested',
+    type: StaffingPlanDto,
+    required: false,
+  })
+  staffingPlan?: StaffingPlanDto;
+}
+
+export class EffortBreakdownDto implements EffortBreakdown {
+  @ApiProperty({ example: 'India' })
+  deliveryLocation: string;
+
+  @ApiProperty({ example: 265.68 })
+  effortHours: number;
+
+  @ApiProperty({ example: 3985.2 })
+  effortAmount: number;
+
+  @ApiProperty({ example: '265.68 hours in India at 15/hour' })
+  effortHoursDescription: string;
+}
+
+export class CostBreakdownDetailDto implements CostBreakdown {
+  @ApiProperty({ example: 'ignition' })
+  costComponentName: string;
+
+  @ApiProperty({ example: 5285.2 })
+  amount: number;
+
+  @ApiProperty({
+    example: 'Development effort for ignition at Medium complexity',
+  })
+  description: string;
+
+  @ApiProperty({
+    description: 'Whether the item could not be priced',
+    example: false,
+  })
+  isError: boolean;
+
+  @ApiProperty({
+    description: 'Why the item could not be priced',
+    required: false,
+  })
+  errorMessage?: string;
+
+  @ApiProperty({ example: 'Medium', required: false })
+  complexity?: string;
+
+  @ApiProperty({ example: 290.68, required: false })
+  effortHours?: number;
+
+  @ApiProperty({
+    example: 'Total: 290.68 hours across all locations',
+    required: false,
+  })
+  effortHoursDescription?: string;
+
+  @ApiProperty({
+    description: 'Hours and amount at each delivery location',
+    type: [EffortBreakdownDto],
+    required: false,
+  })
+  effortBreakdown?: EffortBreakdownDto[];
+}
+
+export class DetailedBuildCostDto extends OmitType(BuildCostDto, [
+  'breakdown',
+]) {
+  @ApiProperty({
+    description: 'Every cost item in calculation order',
+    type: [CostBreakdownDetailDto],
+  })
+  breakdown: CostBreakdownDetailDto[];
+}
+
+export class DetailedRunCostDto extends OmitType(RunCostDto, ['breakdown']) {
+  @ApiProperty({
+    description: 'Every cost item in calculation order',
+    type: [CostBreakdownDetailDto],
+  })
+  breakdown: CostBreakdownDetailDto[];
+}
+
+/**
+ * Cost response keeping every breakdown item with its effort detail and
+ * error flags, in calculation order
+ */
+export class DetailedAssetCostResponseDto extends OmitType(
+  AssetCostResponseDto,
+  ['buildCost', 'runCost'],
+) {
+  @ApiProperty({
+    description: 'One-time build costs',
+    type: DetailedBuildCostDto,
+  })
+  buildCost: DetailedBuildCostDto;
+
+  @ApiProperty({
+    description: 'Recurring run costs',
+    type: DetailedRunCostDto,
+  })
+  runCost: DetailedRunCostDto;
 }
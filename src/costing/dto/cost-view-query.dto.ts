@@ -0,0 +1,17 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type CostView = 'compact' | 'detailed';
+
+export class CostViewQueryDto {
+  @ApiProperty({
+    description:
+      'Response shape. compact keys each breakdown by component name; detailed lists every item with its effort detail and error flags',
+    enum: ['compact', 'detailed'],
+    default: 'compact',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['compact', 'detailed'])
+  view?: CostView;
+}
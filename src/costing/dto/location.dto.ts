@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeliveryLocation } from '../interfaces/location.interface';
+
+export class LocationDto implements DeliveryLocation {
+  @ApiProperty({
+    description: 'Location name used in resource models',
+    example: 'India',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Human-readable location name',
+    example: 'India',
+  })
+  displayName: string;
+
+  @ApiProperty({
+    description: 'Working hours in a standard working day',
+    example: 9,
+  })
+  workingHoursPerDay: number;
+
+  @ApiProperty({
+    description: 'Local currency code',
+    example: 'INR',
+  })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Default holiday calendar for the location',
+    example: 'IN',
+  })
+  holidayCalendar: string;
+}
+
+export class LocationListResponseDto {
+  @ApiProperty({
+    description: 'Registered delivery locations',
+    type: [LocationDto],
+  })
+  locations: LocationDto[];
+}
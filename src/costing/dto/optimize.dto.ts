@@ -0,0 +1,218 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ResourceAllocationDto } from './cost-request.dto';
+import { ComplexityLevel } from '../calculators/base-calculator';
+import {
+  AllocationLimit,
+  OptimizationConstraints,
+  OptimizationResult,
+  OptimizedComponent,
+} from '../interfaces/optimizer.interface';
+
+export class AllocationLimitDto implements AllocationLimit {
+  @ApiProperty({
+    description: 'Locations whose allocations are added up',
+    example: ['Australia'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  locations: string[];
+
+  @ApiProperty({
+    description: 'Minimum combined allocation percentage',
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minPercent?: number;
+
+  @ApiProperty({
+    description: 'Maximum combined allocation percentage',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  maxPercent?: number;
+}
+
+export class OptimizationConstraintsDto implements OptimizationConstraints {
+  @ApiProperty({
+    description:
+      'Locations the work may be placed in (defaults to every location that can deliver the component)',
+    example: ['India', 'Australia'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedLocations?: string[];
+
+  @ApiProperty({
+    description: 'Maximum number of locations used by each component',
+    example: 2,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxLocationsPerComponent?: number;
+
+  @ApiProperty({
+    description: 'Bounds on the allocation of groups of locations',
+    type: [AllocationLimitDto],
+    required: false,
+    example: [
+      { locations: ['Australia'], minPercent: 20 },
+      { locations: ['India'], maxPercent: 80 },
+    ],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AllocationLimitDto)
+  limits?: AllocationLimitDto[];
+
+  @ApiProperty({
+    description: 'Granularity of the allocation search, must divide 100',
+    example: 10,
+    default: 10,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  stepPercent?: number;
+}
+
+export class OptimizeRequestDto {
+  @ApiProperty({ description: 'Name of asset', example: 'ATR' })
+  @IsString()
+  @IsNotEmpty()
+  assetName: string;
+
+  @ApiProperty({
+    description: 'Complexity level',
+    enum: ['xSmall', 'Small', 'Medium', 'Large', 'xLarge'],
+    example: 'Medium',
+  })
+  @IsIn(['xSmall', 'Small', 'Medium', 'Large', 'xLarge'])
+  complexity: ComplexityLevel;
+
+  @ApiProperty({
+    description: 'Components to allocate',
+    example: ['ignition', 'automation configuration'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  components: string[];
+
+  @ApiProperty({
+    description: 'Constraints every component must satisfy',
+    type: OptimizationConstraintsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OptimizationConstraintsDto)
+  constraints?: OptimizationConstraintsDto;
+
+  @ApiProperty({
+    description:
+      'Price with the rate card that was in effect on this date (defaults to today)',
+    example: '2025-03-31',
+    required: false,
+    type: Date,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  asOfDate?: Date;
+
+  @ApiProperty({
+    description: 'ISO 4217 currency for the predicted cost (defaults to USD)',
+    example: 'AUD',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
+export class OptimizedAssetComponentDto {
+  @ApiProperty({ example: 'ignition' })
+  name: string;
+
+  @ApiProperty({ type: [ResourceAllocationDto] })
+  resourceModel: ResourceAllocationDto[];
+}
+
+export class OptimizedComponentDto
+  extends OptimizedAssetComponentDto
+  implements OptimizedComponent
+{
+  @ApiProperty({ description: 'Predicted build cost', example: 5234.5 })
+  buildCost: number;
+
+  @ApiProperty({ description: 'Predicted effort hours', example: 290.4 })
+  effortHours: number;
+}
+
+export class OptimizeResponseDto implements OptimizationResult {
+  @ApiProperty({ example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({ example: 'Medium' })
+  complexity: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Build cost of the optimised allocation',
+    example: 9870.5,
+  })
+  predictedBuildCost: number;
+
+  @ApiProperty({
+    description: 'Ready-to-post assetComponents for POST /costing',
+    type: [OptimizedAssetComponentDto],
+  })
+  assetComponents: OptimizedAssetComponentDto[];
+
+  @ApiProperty({
+    description: 'Predicted cost and effort of each component',
+    type: [OptimizedComponentDto],
+  })
+  components: OptimizedComponentDto[];
+
+  @ApiProperty({
+    description: 'Number of allocations the search priced',
+    example: 132,
+  })
+  evaluatedAllocations: number;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PluginStatus } from '../interfaces/calculator-plugin.interface';
+
+export class PluginStatusDto implements PluginStatus {
+  @ApiProperty({
+    description: 'Path of the plugin module',
+    example: '/opt/costing/plugins/chatbot.js',
+  })
+  file: string;
+
+  @ApiProperty({
+    description: 'Plugin name',
+    example: 'chatbot-calculators',
+    required: false,
+  })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Plugin version',
+    example: '1.2.0',
+    required: false,
+  })
+  version?: string;
+
+  @ApiProperty({
+    description: 'Engine API version the plugin targets',
+    example: '1.0',
+    required: false,
+  })
+  engineApiVersion?: string;
+
+  @ApiProperty({
+    description: 'Assets whose calculators the plugin registered',
+    example: ['Chatbot'],
+  })
+  assetNames: string[];
+
+  @ApiProperty({
+    description: 'Whether the plugin loaded',
+    enum: ['loaded', 'failed'],
+    example: 'loaded',
+  })
+  status: 'loaded' | 'failed';
+
+  @ApiProperty({
+    description: 'Why the plugin failed to load',
+    required: false,
+  })
+  error?: string;
+}
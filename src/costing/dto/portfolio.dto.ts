@@ -0,0 +1,120 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsISO4217CurrencyCode,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CostRequestDto } from './cost-request.dto';
+import { AssetCostResponseDto } from './cost-response.dto';
+import { CostPeriod } from '../utils/period.util';
+
+export class PortfolioRequestDto {
+  @ApiProperty({
+    description: 'Assets to price, each as for POST /costing',
+    type: [CostRequestDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => CostRequestDto)
+  assets: CostRequestDto[];
+
+  @ApiProperty({
+    description: 'Period the rolled-up run cost is expressed in',
+    enum: ['monthly', 'yearly'],
+    default: 'monthly',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['monthly', 'yearly'])
+  runCostPeriod?: CostPeriod;
+
+  @ApiProperty({
+    description:
+      'ISO 4217 currency for every asset and the totals (defaults to USD). Overrides the currency of individual assets',
+    example: 'AUD',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
+export class PortfolioAssetResultDto {
+  @ApiProperty({
+    description: 'Position of the asset in the request',
+    example: 0,
+  })
+  index: number;
+
+  @ApiProperty({ description: 'Name of asset', example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({
+    description: 'Whether the asset priced successfully',
+    enum: ['success', 'failed'],
+  })
+  status: 'success' | 'failed';
+
+  @ApiProperty({
+    description: 'Cost estimate for the asset',
+    type: AssetCostResponseDto,
+    required: false,
+  })
+  result?: AssetCostResponseDto;
+
+  @ApiProperty({
+    description: 'Why the asset could not be priced',
+    required: false,
+  })
+  error?: string;
+}
+
+export class PortfolioTotalDto {
+  @ApiProperty({ description: 'Total cost', example: 125000 })
+  total: number;
+
+  @ApiProperty({ description: 'Currency code', example: 'USD' })
+  currency: string;
+}
+
+export class PortfolioRunTotalDto extends PortfolioTotalDto {
+  @ApiProperty({
+    description: 'Period every run cost was normalised to',
+    enum: ['monthly', 'yearly'],
+    example: 'monthly',
+  })
+  period: CostPeriod;
+}
+
+export class PortfolioResponseDto {
+  @ApiProperty({
+    description: 'Result for each asset, in request order',
+    type: [PortfolioAssetResultDto],
+  })
+  assets: PortfolioAssetResultDto[];
+
+  @ApiProperty({
+    description: 'Build cost of all successfully priced assets',
+    type: PortfolioTotalDto,
+  })
+  buildCost: PortfolioTotalDto;
+
+  @ApiProperty({
+    description: 'Run cost of all successfully priced assets',
+    type: PortfolioRunTotalDto,
+  })
+  runCost: PortfolioRunTotalDto;
+
+  @ApiProperty({
+    description: 'Number of assets that could not be priced',
+    example: 0,
+  })
+  failedCount: number;
+}
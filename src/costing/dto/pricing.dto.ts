@@ -0,0 +1,91 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  PriceSummary,
+  PricingLayerType,
+  PricingOverrides,
+  PricingUplift,
+} from '../interfaces/pricing.interface';
+
+export class PricingOverridesDto implements PricingOverrides {
+  @ApiProperty({
+    description: 'Contingency percentage, replacing the asset default',
+    example: 15,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  contingencyPercent?: number;
+
+  @ApiProperty({
+    description: 'Management fee percentage, replacing the asset default',
+    example: 5,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  managementFeePercent?: number;
+
+  @ApiProperty({
+    description:
+      'Delivery margin as a percentage of the sell price, replacing the asset default',
+    example: 25,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(99)
+  marginPercent?: number;
+}
+
+export class PricingUpliftDto implements PricingUplift {
+  @ApiProperty({
+    description: 'Name of the pricing layer',
+    example: 'Contingency',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Kind of pricing layer',
+    enum: ['contingency', 'managementFee', 'margin'],
+    example: 'contingency',
+  })
+  type: PricingLayerType;
+
+  @ApiProperty({ description: 'Percentage applied', example: 10 })
+  percent: number;
+
+  @ApiProperty({ description: 'Amount added to the price', example: 1200 })
+  amount: number;
+}
+
+export class PriceSummaryDto implements PriceSummary {
+  @ApiProperty({ description: 'Cost before pricing layers', example: 12000 })
+  cost: number;
+
+  @ApiProperty({
+    description: 'Uplift of each pricing layer, in the order applied',
+    type: [PricingUpliftDto],
+  })
+  uplifts: PricingUpliftDto[];
+
+  @ApiProperty({
+    description: 'Cost plus all uplifts',
+    example: 16500,
+  })
+  sellPrice: number;
+}
+
+export class AssetPricingDto {
+  @ApiProperty({ description: 'Build cost to price', type: PriceSummaryDto })
+  build: PriceSummaryDto;
+
+  @ApiProperty({
+    description: 'Run cost to price, for the run cost period',
+    type: PriceSummaryDto,
+  })
+  run: PriceSummaryDto;
+}
@@ -0,0 +1,13 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RateCardVersionQueryDto {
+  @ApiProperty({
+    description:
+      'Rate card version to read or change. Reads default to the version in effect today; changes must name a version',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  version?: string;
+}
@@ -0,0 +1,111 @@
+import { Type } from 'class-transformer';
+import { IsDate } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CostRequestDto } from './cost-request.dto';
+import { IsLocationHours } from '../validators/is-location-hours.validator';
+import {
+  ComponentSchedule,
+  DeliveryScheduleResponse,
+  LocationSchedule,
+  MonthlySpend,
+} from '../interfaces/schedule.interface';
+
+export class ScheduleRequestDto extends CostRequestDto {
+  @ApiProperty({
+    description: 'Date delivery starts',
+    example: '2025-07-01',
+    type: Date,
+  })
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'Number of people working on the build at each location',
+    example: { India: 4, Australia: 1 },
+  })
+  @IsLocationHours({
+    message: 'teamSizes must map each location to a positive team size',
+  })
+  teamSizes: Record<string, number>;
+}
+
+export class LocationScheduleDto implements LocationSchedule {
+  @ApiProperty({ example: 'India' })
+  location: string;
+
+  @ApiProperty({ example: 4 })
+  teamSize: number;
+
+  @ApiProperty({ example: 295.2 })
+  effortHours: number;
+
+  @ApiProperty({
+    description: 'Working days of the whole team',
+    example: 8.2,
+  })
+  workingDays: number;
+
+  @ApiProperty({ example: '2025-07-01' })
+  startDate: string;
+
+  @ApiProperty({ example: '2025-07-11' })
+  endDate: string;
+}
+
+export class ComponentScheduleDto implements ComponentSchedule {
+  @ApiProperty({ example: 'ignition' })
+  componentName: string;
+
+  @ApiProperty({ example: '2025-07-01' })
+  startDate: string;
+
+  @ApiProperty({ example: '2025-07-11' })
+  endDate: string;
+
+  @ApiProperty({ description: 'Calendar days, inclusive', example: 11 })
+  calendarDays: number;
+
+  @ApiProperty({ type: [LocationScheduleDto] })
+  locations: LocationScheduleDto[];
+}
+
+export class MonthlySpendDto implements MonthlySpend {
+  @ApiProperty({ example: '2025-07' })
+  month: string;
+
+  @ApiProperty({ example: 5285.2 })
+  amount: number;
+
+  @ApiProperty({ example: 5285.2 })
+  cumulativeAmount: number;
+}
+
+export class ScheduleResponseDto implements DeliveryScheduleResponse {
+  @ApiProperty({ example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 5285.2 })
+  buildCost: number;
+
+  @ApiProperty({ example: '2025-07-01' })
+  startDate: string;
+
+  @ApiProperty({ example: '2025-07-11' })
+  endDate: string;
+
+  @ApiProperty({ description: 'Calendar days, inclusive', example: 11 })
+  calendarDays: number;
+
+  @ApiProperty({ type: [ComponentScheduleDto] })
+  components: ComponentScheduleDto[];
+
+  @ApiProperty({
+    description: 'Build spend of every month from start to end of delivery',
+    type: [MonthlySpendDto],
+  })
+  monthlySpend: MonthlySpendDto[];
+}
@@ -0,0 +1,121 @@
+import { IsIn, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CostRequestDto } from './cost-request.dto';
+import {
+  ImpactRange,
+  SensitivityDriver,
+  SensitivityInput,
+  SensitivityRankBy,
+  SensitivityResponse,
+} from '../interfaces/sensitivity.interface';
+
+export class SensitivityRequestDto extends CostRequestDto {
+  @ApiProperty({
+    description:
+      'How far each input moves down and up: a percentage of blend rates, efforts and licence count, and percentage points of allocation',
+    example: 10,
+    default: 10,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(90)
+  percent?: number;
+
+  @ApiProperty({
+    description: 'Cost the drivers are ranked by',
+    enum: ['buildCost', 'runCost'],
+    default: 'buildCost',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['buildCost', 'runCost'])
+  rankBy?: SensitivityRankBy;
+}
+
+export class ImpactRangeDto implements ImpactRange {
+  @ApiProperty({ description: 'Cost with the input at its low value' })
+  low: number;
+
+  @ApiProperty({ description: 'Cost with the input at its high value' })
+  high: number;
+
+  @ApiProperty({ description: 'Low cost minus the base cost' })
+  lowDelta: number;
+
+  @ApiProperty({ description: 'High cost minus the base cost' })
+  highDelta: number;
+
+  @ApiProperty({ description: 'Distance between the low and high cost' })
+  swing: number;
+}
+
+export class SensitivityDriverDto implements SensitivityDriver {
+  @ApiProperty({
+    enum: ['blendRate', 'effort', 'allocation', 'licenseCount', 'supportLevel'],
+    example: 'blendRate',
+  })
+  input: SensitivityInput;
+
+  @ApiProperty({
+    description: 'Location or component the input belongs to',
+    example: 'India',
+    required: false,
+  })
+  target?: string;
+
+  @ApiProperty({ example: '-10%' })
+  lowValue: string;
+
+  @ApiProperty({ example: '+10%' })
+  highValue: string;
+
+  @ApiProperty({ enum: ['success', 'failed'] })
+  status: 'success' | 'failed';
+
+  @ApiProperty({
+    description: 'Why the input could not be varied',
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({ type: ImpactRangeDto, required: false })
+  buildCost?: ImpactRangeDto;
+
+  @ApiProperty({
+    description: 'Run cost impact, in the base run cost period',
+    type: ImpactRangeDto,
+    required: false,
+  })
+  runCost?: ImpactRangeDto;
+}
+
+export class SensitivityResponseDto implements SensitivityResponse {
+  @ApiProperty({ example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 10 })
+  percent: number;
+
+  @ApiProperty({ enum: ['buildCost', 'runCost'] })
+  rankBy: SensitivityRankBy;
+
+  @ApiProperty({ example: 25000 })
+  baseBuildCost: number;
+
+  @ApiProperty({ example: 12500 })
+  baseRunCost: number;
+
+  @ApiProperty({ enum: ['monthly', 'yearly'], example: 'monthly' })
+  runCostPeriod: 'monthly' | 'yearly';
+
+  @ApiProperty({
+    description: 'Drivers ranked by swing, largest first',
+    type: [SensitivityDriverDto],
+  })
+  drivers: SensitivityDriverDto[];
+}
@@ -0,0 +1,92 @@
+import { IsNumber, IsOptional, IsPositive, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsRoleMix } from '../validators/is-role-mix.validator';
+import {
+  LocationStaffing,
+  RoleStaffing,
+  StaffingOptions,
+  StaffingPlan,
+} from '../interfaces/staffing.interface';
+
+export class StaffingOptionsDto implements StaffingOptions {
+  @ApiProperty({
+    description: 'Length of the delivery window in weeks',
+    example: 12,
+  })
+  @IsNumber()
+  @IsPositive()
+  deliveryWeeks: number;
+
+  @ApiProperty({
+    description: 'Share of working time spent on the build',
+    example: 80,
+    default: 80,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  utilisationPercent?: number;
+
+  @ApiProperty({
+    description:
+      'Split of the FTE at each location by role, as percentages totalling 100',
+    example: { Developer: 60, Tester: 25, Lead: 15 },
+    required: false,
+  })
+  @IsOptional()
+  @IsRoleMix()
+  roleMix?: Record<string, number>;
+}
+
+export class RoleStaffingDto implements RoleStaffing {
+  @ApiProperty({ example: 'Developer' })
+  role: string;
+
+  @ApiProperty({ example: 0.58 })
+  fte: number;
+
+  @ApiProperty({ example: 1 })
+  headcount: number;
+}
+
+export class LocationStaffingDto implements LocationStaffing {
+  @ApiProperty({ example: 'India' })
+  location: string;
+
+  @ApiProperty({ example: 265.68 })
+  effortHours: number;
+
+  @ApiProperty({
+    description: 'Build hours one FTE delivers in the window',
+    example: 432,
+  })
+  hoursPerFte: number;
+
+  @ApiProperty({ example: 0.62 })
+  fte: number;
+
+  @ApiProperty({ description: 'FTE rounded up to whole people', example: 1 })
+  headcount: number;
+
+  @ApiProperty({ type: [RoleStaffingDto], required: false })
+  roles?: RoleStaffingDto[];
+}
+
+export class StaffingPlanDto implements StaffingPlan {
+  @ApiProperty({ example: 12 })
+  deliveryWeeks: number;
+
+  @ApiProperty({ example: 80 })
+  utilisationPercent: number;
+
+  @ApiProperty({ example: 0.93 })
+  totalFte: number;
+
+  @ApiProperty({ example: 2 })
+  totalHeadcount: number;
+
+  @ApiProperty({ type: [LocationStaffingDto] })
+  locations: LocationStaffingDto[];
+}
@@ -0,0 +1,147 @@
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CostRequestDto } from './cost-request.dto';
+import { AssetCostResponseDto } from './cost-response.dto';
+import { TcoOptions, TcoYear } from '../interfaces/tco.interface';
+
+export class TcoRequestDto extends CostRequestDto {
+  @ApiProperty({
+    description: 'Number of years to project',
+    example: 5,
+    minimum: 1,
+    maximum: 30,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  horizonYears: number;
+
+  @ApiProperty({
+    description:
+      'Months from the start of the build until go-live. Build cost is spread over these months and run cost starts after them',
+    example: 6,
+    default: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  goLiveOffsetMonths?: number;
+
+  @ApiProperty({
+    description: 'Yearly increase applied to run cost after the first year',
+    example: 3,
+    default: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  annualEscalationPercent?: number;
+
+  @ApiProperty({
+    description:
+      'Discount rate for the net present value (defaults to TCO_DISCOUNT_RATE_PERCENT, or 8)',
+    example: 8,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discountRatePercent?: number;
+}
+
+export class TcoAssumptionsDto implements TcoOptions {
+  @ApiProperty({ example: 5 })
+  horizonYears: number;
+
+  @ApiProperty({ example: 6 })
+  goLiveOffsetMonths: number;
+
+  @ApiProperty({ example: 3 })
+  annualEscalationPercent: number;
+
+  @ApiProperty({ example: 8 })
+  discountRatePercent: number;
+}
+
+export class TcoYearDto implements TcoYear {
+  @ApiProperty({ description: 'Project year, starting at 1', example: 1 })
+  year: number;
+
+  @ApiProperty({ description: 'Build spend in the year', example: 20000 })
+  buildCost: number;
+
+  @ApiProperty({ description: 'Run spend in the year', example: 9000 })
+  runCost: number;
+
+  @ApiProperty({ description: 'Build plus run spend', example: 29000 })
+  totalCost: number;
+
+  @ApiProperty({
+    description: 'Total spend up to the end of the year',
+    example: 29000,
+  })
+  cumulativeCost: number;
+
+  @ApiProperty({
+    description: 'Year-end discount factor',
+    example: 0.925926,
+  })
+  discountFactor: number;
+
+  @ApiProperty({
+    description: 'Total spend discounted to today',
+    example: 26851.85,
+  })
+  presentValue: number;
+}
+
+export class TcoTotalsDto {
+  @ApiProperty({ example: 20000 })
+  buildCost: number;
+
+  @ApiProperty({ example: 45000 })
+  runCost: number;
+
+  @ApiProperty({ example: 65000 })
+  totalCost: number;
+
+  @ApiProperty({
+    description: 'Sum of the yearly present values',
+    example: 53000,
+  })
+  netPresentValue: number;
+}
+
+export class TcoResponseDto {
+  @ApiProperty({ description: 'Name of asset', example: 'ATR' })
+  assetName: string;
+
+  @ApiProperty({ description: 'Currency code', example: 'USD' })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Assumptions used for the projection',
+    type: TcoAssumptionsDto,
+  })
+  assumptions: TcoAssumptionsDto;
+
+  @ApiProperty({
+    description: 'Spend for each year of the horizon',
+    type: [TcoYearDto],
+  })
+  schedule: TcoYearDto[];
+
+  @ApiProperty({
+    description: 'Totals over the horizon',
+    type: TcoTotalsDto,
+  })
+  totals: TcoTotalsDto;
+
+  @ApiProperty({
+    description: 'The single-period estimate the projection is built on',
+    type: AssetCostResponseDto,
+  })
+  estimate: AssetCostResponseDto;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  CostingErrorCode,
+  CostingIssue,
+} from '../exceptions/costing.exception';
+import { ValidationReport } from '../interfaces/validation-report.interface';
+
+export class CostingIssueDto implements CostingIssue {
+  @ApiProperty({
+    enum: [
+      'VALIDATION_FAILED',
+      'RATE_DATA_MISSING',
+      'UNSUPPORTED_LOCATION',
+      'UNSUPPORTED_COMPONENT',
+      'NOT_FOUND',
+      'CONFLICT',
+      'REQUEST_FAILED',
+    ],
+    example: 'UNSUPPORTED_LOCATION',
+  })
+  code: CostingErrorCode;
+
+  @ApiProperty({ example: 'Unknown location: Atlantis' })
+  message: string;
+
+  @ApiProperty({
+    description: 'Path of the request field at fault',
+    example: 'assetComponents[0].resourceModel[1].location',
+    required: false,
+  })
+  path?: string;
+}
+
+export class ValidationReportDto implements ValidationReport {
+  @ApiProperty({
+    description: 'Whether the request can be priced as it is',
+    example: false,
+  })
+  valid: boolean;
+
+  @ApiProperty({
+    description: 'Every problem found, empty when the request is valid',
+    type: [CostingIssueDto],
+  })
+  issues: CostingIssueDto[];
+}
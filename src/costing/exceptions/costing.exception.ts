@@ -0,0 +1,95 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Machine-readable codes of the problems found while costing an asset
+ */
+export type CostingErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'RATE_DATA_MISSING'
+  | 'UNSUPPORTED_LOCATION'
+  | 'UNSUPPORTED_COMPONENT'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'REQUEST_FAILED';
+
+/**
+ * One problem found with a cost request
+ */
+export interface CostingIssue {
+  code: CostingErrorCode;
+  message: string;
+  /** Path of the request field at fault, e.g. assetComponents[0].name */
+  path?: string;
+}
+
+/**
+ * Base class of the errors raised while costing an asset. Carries every
+ * problem found, so callers can fix them all in one go
+ */
+export abstract class CostingException extends Error {
+  readonly issues: CostingIssue[];
+
+  protected constructor(
+    message: string,
+    readonly code: CostingErrorCode,
+    readonly status: HttpStatus,
+    issues: (string | CostingIssue)[] = [message],
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.issues = issues.map((issue) =>
+      typeof issue === 'string' ? { code, message: issue } : issue,
+    );
+  }
+}
+
+/**
+ * The request is malformed or inconsistent
+ */
+export class CostingValidationException extends CostingException {
+  constructor(message: string, issues?: (string | CostingIssue)[]) {
+    super(message, 'VALIDATION_FAILED', HttpStatus.BAD_REQUEST, issues);
+  }
+}
+
+/**
+ * The rate card or FX tables have no rate for what was asked
+ */
+export class MissingRateDataException extends CostingException {
+  constructor(message: string, issues?: (string | CostingIssue)[]) {
+    super(
+      message,
+      'RATE_DATA_MISSING',
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      issues,
+    );
+  }
+}
+
+/**
+ * A delivery location is not in the location registry
+ */
+export class UnsupportedLocationException extends CostingException {
+  constructor(message: string, issues?: (string | CostingIssue)[]) {
+    super(
+      message,
+      'UNSUPPORTED_LOCATION',
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      issues,
+    );
+  }
+}
+
+/**
+ * A component is not in the asset's effort catalog
+ */
+export class UnsupportedComponentException extends CostingException {
+  constructor(message: string, issues?: (string | CostingIssue)[]) {
+    super(
+      message,
+      'UNSUPPORTED_COMPONENT',
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      issues,
+    );
+  }
+}
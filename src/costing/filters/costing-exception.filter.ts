@@ -0,0 +1,95 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  CostingErrorCode,
+  CostingException,
+  CostingIssue,
+} from '../exceptions/costing.exception';
+
+/**
+ * Error body returned for a costing exception
+ */
+export interface CostingErrorBody {
+  statusCode: number;
+  error: string;
+  message: string;
+  issues: CostingIssue[];
+}
+
+/**
+ * Codes reported for HTTP exceptions, by status. Other statuses report
+ * REQUEST_FAILED
+ */
+const HTTP_ERROR_CODES: Partial<Record<HttpStatus, CostingErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: 'VALIDATION_FAILED',
+  [HttpStatus.NOT_FOUND]: 'NOT_FOUND',
+  [HttpStatus.CONFLICT]: 'CONFLICT',
+};
+
+/**
+ * Turns costing exceptions into 400 or 422 responses listing every
+ * problem found, instead of a 500. Other HTTP exceptions keep their status
+ * but get the same body, with one issue per message.
+ */
+@Catch(CostingException, HttpException)
+export class CostingExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(CostingExceptionFilter.name);
+
+  catch(
+    exception: CostingException | HttpException,
+    host: ArgumentsHost,
+  ): void {
+    const body =
+      exception instanceof CostingException
+        ? this.fromCostingException(exception)
+        : this.fromHttpException(exception);
+    this.logger.warn(`${body.error}: ${body.message}`);
+    host
+      .switchToHttp()
+      .getResponse<Response>()
+      .status(body.statusCode)
+      .json(body);
+  }
+
+  private fromCostingException(exception: CostingException): CostingErrorBody {
+    return {
+      statusCode: exception.status,
+      error: exception.code,
+      message: exception.message,
+      issues: exception.issues,
+    };
+  }
+
+  /**
+   * Read the messages of an HTTP exception: its response string, or the
+   * message or list of messages of its response object
+   */
+  private fromHttpException(exception: HttpException): CostingErrorBody {
+    const statusCode = exception.getStatus();
+    const code = HTTP_ERROR_CODES[statusCode as HttpStatus] ?? 'REQUEST_FAILED';
+    const response = exception.getResponse();
+    const message =
+      typeof response === 'string'
+        ? response
+        : (response as { message?: unknown }).message;
+    const messages = (Array.isArray(message) ? message : [message])
+      .filter((item) => item !== undefined)
+      .map(String);
+    if (messages.length === 0) {
+      messages.push(exception.message);
+    }
+    return {
+      statusCode,
+      error: code,
+      message: messages.join(', '),
+      issues: messages.map((item) => ({ code, message: item })),
+    };
+  }
+}
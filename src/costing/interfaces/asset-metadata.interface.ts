@@ -0,0 +1,38 @@
+import { AssetCostRequest } from './costing.interface';
+import { JsonSchemaProperty } from './json-schema.interface';
+
+/**
+ * A component of an asset and where and at what complexity it can be priced
+ */
+export interface ComponentMetadata {
+  name: string;
+  /** Complexity levels the component has effort data for */
+  complexities: string[];
+  /** Delivery locations with both effort hours and a blend rate */
+  locations: string[];
+}
+
+/**
+ * A field the asset takes in specificFields
+ */
+export interface SpecificFieldMetadata {
+  name: string;
+  type: JsonSchemaProperty['type'];
+  required: boolean;
+  description?: string;
+  enum?: (string | number | boolean)[];
+}
+
+/**
+ * What a client needs to build a cost request for an asset
+ */
+export interface AssetMetadata {
+  assetName: string;
+  components: ComponentMetadata[];
+  /** Every location at least one component can be delivered from */
+  locations: string[];
+  specificFields: SpecificFieldMetadata[];
+  runCostPeriod: 'monthly' | 'yearly';
+  /** A request that prices every component, ready to send to POST /costing */
+  samplePayload: AssetCostRequest;
+}
@@ -0,0 +1,43 @@
+import { ComponentEffort } from './rate-card.interface';
+
+/**
+ * A field the asset expects in specificFields
+ */
+export interface SpecificFieldSpec {
+  name: string;
+  type: 'number' | 'string' | 'boolean';
+  required?: boolean;
+  description?: string;
+}
+
+/**
+ * A run-cost line item priced by a fixed amount or a formula (see
+ * utils/formula.util.ts). The result is multiplied by the required numeric
+ * specificField named in multiplyBy, and the item only applies when every
+ * field in `when` (looked up in commonFields, then specificFields) matches.
+ */
+export interface RunCostItemSpec {
+  name: string;
+  description?: string;
+  amount?: number;
+  formula?: string;
+  multiplyBy?: string;
+  when?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Declarative definition of an asset, priced by the SpecCalculator:
+ * effort-based build components plus run-cost line items
+ */
+export interface AssetSpec {
+  name: string;
+  description?: string;
+  components: ComponentEffort[];
+  runCost: {
+    period: 'monthly' | 'yearly';
+    items: RunCostItemSpec[];
+  };
+  specificFields?: SpecificFieldSpec[];
+  /** Named lookup tables that formulas can reference, e.g. supportRates */
+  tables?: Record<string, Record<string, number | string>>;
+}
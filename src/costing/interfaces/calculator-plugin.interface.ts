@@ -0,0 +1,46 @@
+import { CostCalculator } from './costing.interface';
+import { BaseCalculator } from '../calculators/base-calculator';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { LocationRegistryService } from '../services/location-registry.service';
+import { FxRateService } from '../services/fx-rate.service';
+
+/**
+ * Version of the plugin API offered by the engine. A plugin is compatible
+ * when it targets the same major version and a minor version no newer.
+ */
+export const ENGINE_API_VERSION = '1.0';
+
+/**
+ * Engine services handed to a plugin so its calculators can extend
+ * BaseCalculator without depending on this repository's source
+ */
+export interface PluginContext {
+  engineApiVersion: string;
+  BaseCalculator: typeof BaseCalculator;
+  rateCardRepository: RateCardRepository;
+  locationRegistry: LocationRegistryService;
+  fxRateService: FxRateService;
+}
+
+/**
+ * Shape a compiled plugin module exports, either as `plugin` or as default
+ */
+export interface CalculatorPlugin {
+  name: string;
+  version: string;
+  engineApiVersion: string;
+  createCalculators(context: PluginContext): CostCalculator[];
+}
+
+/**
+ * Outcome of loading one plugin module
+ */
+export interface PluginStatus {
+  file: string;
+  name?: string;
+  version?: string;
+  engineApiVersion?: string;
+  assetNames: string[];
+  status: 'loaded' | 'failed';
+  error?: string;
+}
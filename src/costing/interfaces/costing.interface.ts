@@ -1,3 +1,10 @@
+import { AppliedFxRate } from './fx-rate.interface';
+import { AssetPricing, PricingOverrides, RiskLevel } from './pricing.interface';
+import { StaffingOptions, StaffingPlan } from './staffing.interface';
+import { SpecificFieldsSchema } from './json-schema.interface';
+import { AssetMetadata } from './asset-metadata.interface';
+import { CostingIssue } from '../exceptions/costing.exception';
+
 /**
  * Common fields used across all asset types
  */
@@ -15,11 +22,26 @@ export interface ResourceAllocation {
   allocation: number;
 }
 
+/**
+ * A component to price. complexity overrides the request-level complexity
+ * for this component only.
+ */
 export interface AssetComponent {
   name: string;
+  complexity?: string;
   resourceModel: ResourceAllocation[];
 }
 
+/**
+ * What-if changes to rate card inputs, as percentages keyed by delivery
+ * location (blendRates) or component name (efforts), e.g. `{ India: 10 }`
+ * prices India 10% higher
+ */
+export interface CostAdjustments {
+  blendRates?: Record<string, number>;
+  efforts?: Record<string, number>;
+}
+
 /**
  * Base interface for all asset cost requests
  */
@@ -30,6 +52,12 @@ export interface AssetCostRequest {
   assetComponents: AssetComponent[];
   // resourceModel: ResourceAllocation[];
   specificFields: Record<string, any>;
+  asOfDate?: Date;
+  currency?: string;
+  riskLevel?: RiskLevel;
+  pricing?: PricingOverrides;
+  adjustments?: CostAdjustments;
+  staffing?: StaffingOptions;
 }
 
 export interface EffortBreakdown {
@@ -48,11 +76,24 @@ export interface CostBreakdown {
   description: string;
   isError: boolean;
   errorMessage?: string;
+  complexity?: string;
   effortHours?: number;
   effortHoursDescription?: string;
   effortBreakdown?: EffortBreakdown[];
 }
 
+/**
+ * Spread of the build cost implied by three-point effort estimates
+ */
+export interface BuildCostConfidence {
+  method: 'PERT';
+  mean: number;
+  standardDeviation: number;
+  p50: number;
+  p80: number;
+  p90: number;
+}
+
 /**
  * Standard cost response format
  */
@@ -62,6 +103,7 @@ export interface AssetCostResponse {
     total: number;
     currency: string;
     breakdown: CostBreakdown[];
+    confidence?: BuildCostConfidence;
   };
   runCost: {
     total: number;
@@ -70,6 +112,10 @@ export interface AssetCostResponse {
     breakdown: CostBreakdown[];
   };
   estimationDate: Date;
+  rateCardVersion: string;
+  fxRate: AppliedFxRate;
+  pricing: AssetPricing;
+  staffingPlan?: StaffingPlan;
 }
 
 /**
@@ -78,4 +124,10 @@ export interface AssetCostResponse {
 export interface CostCalculator {
   calculateCosts(request: AssetCostRequest): Promise<AssetCostResponse>;
   getAssetName(): string;
+  /** JSON Schema of specificFields; calculators without one accept any */
+  getSpecificFieldsSchema?(): SpecificFieldsSchema;
+  /** Components, locations and fields clients can build a request from */
+  getMetadata?(asOfDate?: Date): Promise<AssetMetadata>;
+  /** Every problem with a request, found without pricing it */
+  validate?(request: AssetCostRequest): Promise<CostingIssue[]>;
 }
@@ -0,0 +1,20 @@
+/**
+ * Exchange rates against a base currency, valid from asOfDate (YYYY-MM-DD).
+ * Each rate is the number of units of that currency per one unit of the base.
+ */
+export interface FxRateTable {
+  version: string;
+  asOfDate: string;
+  baseCurrency: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * The exchange rate applied to an estimate
+ */
+export interface AppliedFxRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  tableVersion: string;
+}
@@ -0,0 +1,10 @@
+/**
+ * Non-working days of a holiday calendar. Holidays use the YYYY-MM-DD
+ * format; weekendDays are days of the week, 0 for Sunday to 6 for Saturday
+ * (Saturday and Sunday when omitted).
+ */
+export interface HolidayCalendar {
+  code: string;
+  weekendDays?: number[];
+  holidays: string[];
+}
@@ -0,0 +1,27 @@
+/**
+ * The subset of JSON Schema (draft 2020-12) used to describe an asset's
+ * specificFields. errorMessage replaces the generated messages for a
+ * property, as in ajv-errors.
+ */
+export interface JsonSchemaProperty {
+  type: 'number' | 'integer' | 'string' | 'boolean' | 'array';
+  description?: string;
+  enum?: (string | number | boolean)[];
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchemaProperty;
+  default?: unknown;
+  errorMessage?: string;
+}
+
+/**
+ * JSON Schema of the specificFields object of a cost request
+ */
+export interface SpecificFieldsSchema {
+  $schema?: string;
+  title?: string;
+  type: 'object';
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
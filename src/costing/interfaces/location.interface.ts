@@ -0,0 +1,10 @@
+/**
+ * A delivery location that resources can be allocated to
+ */
+export interface DeliveryLocation {
+  name: string;
+  displayName: string;
+  workingHoursPerDay: number;
+  currency: string;
+  holidayCalendar: string;
+}
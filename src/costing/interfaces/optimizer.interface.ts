@@ -0,0 +1,41 @@
+import { ResourceAllocation } from './costing.interface';
+
+/**
+ * Bounds on the combined allocation of a group of locations, e.g.
+ * `{ locations: ['Australia'], minPercent: 20 }` for "at least 20% onshore"
+ */
+export interface AllocationLimit {
+  locations: string[];
+  minPercent?: number;
+  maxPercent?: number;
+}
+
+/**
+ * Constraints every component's resource model must satisfy
+ */
+export interface OptimizationConstraints {
+  allowedLocations?: string[];
+  maxLocationsPerComponent?: number;
+  limits?: AllocationLimit[];
+  stepPercent?: number;
+}
+
+/**
+ * Cheapest resource model found for one component
+ */
+export interface OptimizedComponent {
+  name: string;
+  resourceModel: ResourceAllocation[];
+  buildCost: number;
+  effortHours: number;
+}
+
+export interface OptimizationResult {
+  assetName: string;
+  complexity: string;
+  currency: string;
+  predictedBuildCost: number;
+  assetComponents: { name: string; resourceModel: ResourceAllocation[] }[];
+  components: OptimizedComponent[];
+  evaluatedAllocations: number;
+}
@@ -0,0 +1,32 @@
+import { AssetCostResponse } from './costing.interface';
+import { CostPeriod } from '../utils/period.util';
+
+/**
+ * Outcome of pricing one asset in a portfolio. `index` is the asset's
+ * position in the request.
+ */
+export interface PortfolioAssetResult {
+  index: number;
+  assetName: string;
+  status: 'success' | 'failed';
+  result?: AssetCostResponse;
+  error?: string;
+}
+
+/**
+ * Per-asset results with build and run totals rolled up across the
+ * assets that priced successfully
+ */
+export interface PortfolioResponse {
+  assets: PortfolioAssetResult[];
+  buildCost: {
+    total: number;
+    currency: string;
+  };
+  runCost: {
+    total: number;
+    currency: string;
+    period: CostPeriod;
+  };
+  failedCount: number;
+}
@@ -0,0 +1,62 @@
+import { ComplexityLevel } from '../calculators/base-calculator';
+
+export type PricingLayerType = 'contingency' | 'managementFee' | 'margin';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type PricedCost = 'build' | 'run';
+
+/**
+ * One step from cost to sell price. Contingency and management fee layers
+ * mark up the running subtotal; a margin layer is a share of the resulting
+ * sell price. The percentage comes from percentByRisk for the request's risk
+ * level, then percentByComplexity for the highest complexity its components
+ * are priced at, then percent.
+ */
+export interface PricingLayer {
+  type: PricingLayerType;
+  name: string;
+  percent?: number;
+  percentByComplexity?: Partial<Record<ComplexityLevel, number>>;
+  percentByRisk?: Partial<Record<RiskLevel, number>>;
+  appliesTo?: PricedCost[];
+}
+
+/**
+ * Pricing layers applied in order. A policy without an assetName applies
+ * to every asset; a policy with an assetName replaces it for that asset.
+ */
+export interface PricingPolicy {
+  assetName?: string;
+  layers: PricingLayer[];
+}
+
+/**
+ * Per-request percentages that replace those of every layer of the type
+ */
+export interface PricingOverrides {
+  contingencyPercent?: number;
+  managementFeePercent?: number;
+  marginPercent?: number;
+}
+
+export interface PricingUplift {
+  name: string;
+  type: PricingLayerType;
+  percent: number;
+  amount: number;
+}
+
+/**
+ * Cost, the uplift of each pricing layer and the resulting sell price
+ */
+export interface PriceSummary {
+  cost: number;
+  uplifts: PricingUplift[];
+  sellPrice: number;
+}
+
+export interface AssetPricing {
+  build: PriceSummary;
+  run: PriceSummary;
+}
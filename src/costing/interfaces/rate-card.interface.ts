@@ -0,0 +1,65 @@
+import { ComplexityLevel } from '../calculators/base-calculator';
+import { PricingPolicy } from './pricing.interface';
+
+/**
+ * Hourly blend rates for a delivery location, one per complexity level.
+ * Rates without an assetName are system-wide; rates with an assetName
+ * override the system-wide rates for that asset only.
+ * Rates are in USD unless a currency is given.
+ */
+export interface BlendRate {
+  location: string;
+  assetName?: string;
+  currency?: string;
+  rates: Record<ComplexityLevel, number>;
+}
+
+/**
+ * Three-point estimate of effort days, for confidence ranges
+ */
+export interface EffortRange {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
+}
+
+/**
+ * Effort for a single asset component by complexity and location.
+ * efforts holds the point estimates; effortRanges optionally adds a
+ * three-point estimate for some or all of them.
+ */
+export interface ComponentEffort {
+  name: string;
+  efforts: Partial<Record<ComplexityLevel, Record<string, number>>>;
+  effortRanges?: Partial<Record<ComplexityLevel, Record<string, EffortRange>>>;
+}
+
+/**
+ * Component effort catalog for an asset
+ */
+export interface AssetEffortCatalog {
+  name: string;
+  components: ComponentEffort[];
+}
+
+/**
+ * Complete set of pricing data consulted by the calculators.
+ * A rate card applies from effectiveFrom up to and including effectiveTo
+ * (open-ended when effectiveTo is omitted). Dates use the YYYY-MM-DD format.
+ * Without pricing policies, the sell price equals the cost.
+ */
+export interface RateCard {
+  version: string;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  blendRates: BlendRate[];
+  assets: AssetEffortCatalog[];
+  pricingPolicies?: PricingPolicy[];
+}
+
+/**
+ * All rate card versions, as stored in a rate card file
+ */
+export interface RateCardCollection {
+  rateCards: RateCard[];
+}
@@ -0,0 +1,71 @@
+import { ResourceAllocation } from './costing.interface';
+
+/**
+ * Changes a scenario makes to the base request. A resourceModel replaces
+ * the resource model of every component, and a complexity the complexity
+ * of the request and of every component; specificFields are merged over
+ * the base fields.
+ */
+export interface ScenarioOverride {
+  name: string;
+  resourceModel?: ResourceAllocation[];
+  complexity?: string;
+  specificFields?: Record<string, any>;
+}
+
+/**
+ * A scenario amount next to the base amount
+ */
+export interface AmountDelta {
+  baseAmount: number;
+  amount: number;
+  delta: number;
+}
+
+export interface ComponentDelta extends AmountDelta {
+  componentName: string;
+}
+
+export interface LocationDelta extends AmountDelta {
+  location: string;
+  baseEffortHours: number;
+  effortHours: number;
+  effortHoursDelta: number;
+}
+
+/**
+ * Totals of one priced request
+ */
+export interface ScenarioTotals {
+  buildCost: number;
+  runCost: number;
+  runCostPeriod: 'monthly' | 'yearly';
+  currency: string;
+}
+
+/**
+ * Differences from the base, as scenario minus base
+ */
+export interface ScenarioDeltas {
+  buildCost: number;
+  runCost: number;
+  components: ComponentDelta[];
+  locations: LocationDelta[];
+}
+
+/**
+ * Outcome of one scenario. A scenario that fails is reported in place.
+ */
+export interface ScenarioComparison {
+  name: string;
+  status: 'success' | 'failed';
+  error?: string;
+  totals?: ScenarioTotals;
+  deltas?: ScenarioDeltas;
+}
+
+export interface ScenarioComparisonResponse {
+  assetName: string;
+  base: ScenarioTotals;
+  scenarios: ScenarioComparison[];
+}
@@ -0,0 +1,40 @@
+/**
+ * Work on one component at one delivery location. Dates use the
+ * YYYY-MM-DD format and are inclusive.
+ */
+export interface LocationSchedule {
+  location: string;
+  teamSize: number;
+  effortHours: number;
+  workingDays: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ComponentSchedule {
+  componentName: string;
+  startDate: string;
+  endDate: string;
+  calendarDays: number;
+  locations: LocationSchedule[];
+}
+
+/**
+ * Build spend falling in one calendar month (YYYY-MM)
+ */
+export interface MonthlySpend {
+  month: string;
+  amount: number;
+  cumulativeAmount: number;
+}
+
+export interface DeliveryScheduleResponse {
+  assetName: string;
+  currency: string;
+  buildCost: number;
+  startDate: string;
+  endDate: string;
+  calendarDays: number;
+  components: ComponentSchedule[];
+  monthlySpend: MonthlySpend[];
+}
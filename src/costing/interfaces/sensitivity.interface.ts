@@ -0,0 +1,45 @@
+export type SensitivityInput =
+  | 'blendRate'
+  | 'effort'
+  | 'allocation'
+  | 'licenseCount'
+  | 'supportLevel';
+
+export type SensitivityRankBy = 'buildCost' | 'runCost';
+
+/**
+ * A cost with the input at its low and high values
+ */
+export interface ImpactRange {
+  low: number;
+  high: number;
+  lowDelta: number;
+  highDelta: number;
+  swing: number;
+}
+
+/**
+ * One bar of the tornado chart. target names the location or component
+ * the input belongs to, when it has one.
+ */
+export interface SensitivityDriver {
+  input: SensitivityInput;
+  target?: string;
+  lowValue: string;
+  highValue: string;
+  status: 'success' | 'failed';
+  error?: string;
+  buildCost?: ImpactRange;
+  runCost?: ImpactRange;
+}
+
+export interface SensitivityResponse {
+  assetName: string;
+  currency: string;
+  percent: number;
+  rankBy: SensitivityRankBy;
+  baseBuildCost: number;
+  baseRunCost: number;
+  runCostPeriod: 'monthly' | 'yearly';
+  drivers: SensitivityDriver[];
+}
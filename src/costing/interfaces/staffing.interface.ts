@@ -0,0 +1,36 @@
+/**
+ * Asks for a staffing plan: the build effort delivered over deliveryWeeks
+ * by people utilised at utilisationPercent (80 when omitted). roleMix
+ * optionally splits each location's FTE by role, as percentages.
+ */
+export interface StaffingOptions {
+  deliveryWeeks: number;
+  utilisationPercent?: number;
+  roleMix?: Record<string, number>;
+}
+
+export interface RoleStaffing {
+  role: string;
+  fte: number;
+  headcount: number;
+}
+
+export interface LocationStaffing {
+  location: string;
+  effortHours: number;
+  hoursPerFte: number;
+  fte: number;
+  headcount: number;
+  roles?: RoleStaffing[];
+}
+
+/**
+ * People needed at each location to deliver the build effort in the window
+ */
+export interface StaffingPlan {
+  deliveryWeeks: number;
+  utilisationPercent: number;
+  totalFte: number;
+  totalHeadcount: number;
+  locations: LocationStaffing[];
+}
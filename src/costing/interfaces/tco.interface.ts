@@ -0,0 +1,42 @@
+import { AssetCostResponse } from './costing.interface';
+
+/**
+ * Assumptions behind a TCO projection
+ */
+export interface TcoOptions {
+  horizonYears: number;
+  goLiveOffsetMonths: number;
+  annualEscalationPercent: number;
+  discountRatePercent: number;
+}
+
+/**
+ * Spend in one year of a TCO projection. Years are numbered from 1 and
+ * discounted at year end.
+ */
+export interface TcoYear {
+  year: number;
+  buildCost: number;
+  runCost: number;
+  totalCost: number;
+  cumulativeCost: number;
+  discountFactor: number;
+  presentValue: number;
+}
+
+/**
+ * Year-by-year total cost of ownership built on a single-asset estimate
+ */
+export interface TcoResponse {
+  assetName: string;
+  currency: string;
+  assumptions: TcoOptions;
+  schedule: TcoYear[];
+  totals: {
+    buildCost: number;
+    runCost: number;
+    totalCost: number;
+    netPresentValue: number;
+  };
+  estimate: AssetCostResponse;
+}
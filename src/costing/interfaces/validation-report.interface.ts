@@ -0,0 +1,9 @@
+import { CostingIssue } from '../exceptions/costing.exception';
+
+/**
+ * Outcome of checking a cost request without pricing it
+ */
+export interface ValidationReport {
+  valid: boolean;
+  issues: CostingIssue[];
+}
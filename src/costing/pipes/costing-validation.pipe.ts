@@ -0,0 +1,55 @@
+import { ValidationError } from 'class-validator';
+import { ValidationPipe, ValidationPipeOptions } from '@nestjs/common';
+import {
+  CostingIssue,
+  CostingValidationException,
+} from '../exceptions/costing.exception';
+
+/**
+ * List the failed constraints of validation errors, with the path of each
+ * field at fault, e.g. assetComponents[0].resourceModel[1].allocation
+ */
+export function toCostingIssues(
+  errors: ValidationError[],
+  parentPath?: string,
+): CostingIssue[] {
+  return errors.flatMap((error) => {
+    let path = error.property;
+    if (parentPath) {
+      path = /^\d+$/.test(error.property)
+        ? `${parentPath}[${error.property}]`
+        : `${parentPath}.${error.property}`;
+    }
+    return [
+      ...Object.values(error.constraints ?? {}).map((message) => ({
+        code: 'VALIDATION_FAILED' as const,
+        message,
+        path,
+      })),
+      ...toCostingIssues(error.children ?? [], path),
+    ];
+  });
+}
+
+/**
+ * ValidationPipe transforming payloads into their DTOs that reports every
+ * invalid field as a CostingValidationException, so validation failures
+ * share the costing error body
+ */
+export class CostingValidationPipe extends ValidationPipe {
+  constructor(options?: ValidationPipeOptions) {
+    super({
+      transform: true,
+      exceptionFactory: (errors) => {
+        const issues = toCostingIssues(errors);
+        return new CostingValidationException(
+          issues.length === 1
+            ? issues[0].message
+            : `Invalid request: ${issues.map((issue) => issue.message).join(', ')}`,
+          issues,
+        );
+      },
+      ...options,
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, HttpCode, Post } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { PluginLoaderService } from './services/plugin-loader.service';
+import { PluginStatusDto } from './dto/plugin.dto';
+import { PluginStatus } from './interfaces/calculator-plugin.interface';
+
+@ApiTags('Costing Admin')
+@Controller('costing/admin/plugins')
+export class PluginAdminController {
+  constructor(private readonly pluginLoaderService: PluginLoaderService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List calculator plugins and their load status' })
+  @ApiResponse({ status: 200, type: [PluginStatusDto] })
+  findAll(): PluginStatus[] {
+    return this.pluginLoaderService.findAll();
+  }
+
+  @Post('reload')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Reload calculator plugins without a restart' })
+  @ApiResponse({ status: 200, type: [PluginStatusDto] })
+  reload(): Promise<PluginStatus[]> {
+    return this.pluginLoaderService.reload();
+  }
+}
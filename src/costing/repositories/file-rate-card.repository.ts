@@ -0,0 +1,102 @@
+import { Logger } from '@nestjs/common';
+import {
+  RateCard,
+  RateCardCollection,
+} from '../interfaces/rate-card.interface';
+import {
+  getFileModifiedTime,
+  readDataFile,
+  writeDataFile,
+} from '../utils/data-file.util';
+import { findInvalidEffortRanges } from '../utils/pert.util';
+import { RateCardRepository } from './rate-card.repository';
+
+/**
+ * Rate card repository backed by a JSON or YAML file holding a
+ * `rateCards` list. The file is re-read whenever it changes on disk,
+ * so rates can be updated without restarting the service.
+ */
+export class FileRateCardRepository extends RateCardRepository {
+  private readonly logger = new Logger(FileRateCardRepository.name);
+
+  private rateCards?: RateCard[];
+
+  private loadedModifiedTime?: number;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async findAllRateCards(): Promise<RateCard[]> {
+    const modifiedTime = await getFileModifiedTime(this.filePath);
+    if (!this.rateCards || modifiedTime !== this.loadedModifiedTime) {
+      this.logger.log(`Loading rate cards from ${this.filePath}`);
+      const collection = await readDataFile<RateCardCollection>(this.filePath);
+      if (!Array.isArray(collection?.rateCards)) {
+        throw new Error(
+          `Rate card file ${this.filePath} has no rateCards list`,
+        );
+      }
+      this.rateCards = collection.rateCards.map((rateCard) =>
+        this.validateRateCard(rateCard),
+      );
+      this.loadedModifiedTime = modifiedTime;
+    }
+    return this.rateCards;
+  }
+
+  async saveRateCard(rateCard: RateCard): Promise<void> {
+    const rateCards = (await this.findAllRateCards()).filter(
+      (item) => item.version !== rateCard.version,
+    );
+    rateCards.push(rateCard);
+    rateCards.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+    this.logger.log(`Saving rate card ${rateCard.version} to ${this.filePath}`);
+    await writeDataFile<RateCardCollection>(this.filePath, { rateCards });
+    this.rateCards = rateCards;
+    this.loadedModifiedTime = await getFileModifiedTime(this.filePath);
+  }
+
+  /**
+   * Check that a loaded entry has the shape of a rate card.
+   * Versions and dates are coerced to strings, as YAML may read them as numbers.
+   * @throws Error if the version, effective date, blendRates or assets are missing,
+   * pricingPolicies is not a list, or an effort range is not
+   * optimistic <= mostLikely <= pessimistic
+   */
+  private validateRateCard(rateCard: RateCard): RateCard {
+    if (!rateCard?.version || !rateCard.effectiveFrom) {
+      throw new Error(
+        `Rate card in ${this.filePath} is missing a version or effectiveFrom date`,
+      );
+    }
+    const { version } = rateCard;
+    if (!Array.isArray(rateCard.blendRates)) {
+      throw new Error(`Rate card ${version} has no blendRates list`);
+    }
+    if (!Array.isArray(rateCard.assets)) {
+      throw new Error(`Rate card ${version} has no assets list`);
+    }
+    const invalidRanges = rateCard.assets.flatMap((asset) =>
+      (asset.components ?? []).flatMap(findInvalidEffortRanges),
+    );
+    if (invalidRanges.length > 0) {
+      throw new Error(`Rate card ${version}: ${invalidRanges.join(', ')}`);
+    }
+    if (
+      rateCard.pricingPolicies !== undefined &&
+      !Array.isArray(rateCard.pricingPolicies)
+    ) {
+      throw new Error(`Rate card ${version} pricingPolicies is not a list`);
+    }
+    return {
+      ...rateCard,
+      version: String(version),
+      effectiveFrom: String(rateCard.effectiveFrom),
+      effectiveTo: rateCard.effectiveTo
+        ? String(rateCard.effectiveTo)
+        : undefined,
+    };
+  }
+}
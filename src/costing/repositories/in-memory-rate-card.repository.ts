@@ -0,0 +1,32 @@
+import { RateCard } from '../interfaces/rate-card.interface';
+import { DEFAULT_RATE_CARD } from '../data/default-rate-card';
+import { RateCardRepository } from './rate-card.repository';
+
+/**
+ * Rate card repository holding its data in memory.
+ * Seeded with the default rate card unless other versions are given.
+ */
+export class InMemoryRateCardRepository extends RateCardRepository {
+  private readonly rateCards: RateCard[];
+
+  constructor(rateCards: RateCard[] = [DEFAULT_RATE_CARD]) {
+    super();
+    this.rateCards = structuredClone(rateCards);
+  }
+
+  findAllRateCards(): Promise<RateCard[]> {
+    return Promise.resolve(this.rateCards);
+  }
+
+  saveRateCard(rateCard: RateCard): Promise<void> {
+    const index = this.rateCards.findIndex(
+      (item) => item.version === rateCard.version,
+    );
+    if (index === -1) {
+      this.rateCards.push(structuredClone(rateCard));
+    } else {
+      this.rateCards[index] = structuredClone(rateCard);
+    }
+    return Promise.resolve();
+  }
+}
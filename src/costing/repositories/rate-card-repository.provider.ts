@@ -0,0 +1,20 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RateCardRepository } from './rate-card.repository';
+import { FileRateCardRepository } from './file-rate-card.repository';
+import { InMemoryRateCardRepository } from './in-memory-rate-card.repository';
+
+/**
+ * Provides a file-backed rate card repository when RATE_CARD_FILE is set,
+ * falling back to the built-in default rate card otherwise
+ */
+export const rateCardRepositoryProvider: Provider = {
+  provide: RateCardRepository,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): RateCardRepository => {
+    const rateCardFile = configService.get<string>('RATE_CARD_FILE');
+    return rateCardFile
+      ? new FileRateCardRepository(rateCardFile)
+      : new InMemoryRateCardRepository();
+  },
+};
@@ -0,0 +1,63 @@
+import { RateCard } from '../interfaces/rate-card.interface';
+import { MissingRateDataException } from '../exceptions/costing.exception';
+
+/**
+ * Source of blend rates and component effort hours for the calculators.
+ * Declared as an abstract class so it can be used as an injection token.
+ */
+export abstract class RateCardRepository {
+  private pendingUpdate: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get every stored rate card version
+   */
+  abstract findAllRateCards(): Promise<RateCard[]>;
+
+  /**
+   * Store a rate card, replacing any existing rate card with the same version.
+   * Edits of a stored version should run through runExclusive
+   */
+  abstract saveRateCard(rateCard: RateCard): Promise<void>;
+
+  /**
+   * Run a read-modify-write of the stored rate cards once every earlier one
+   * has finished, so concurrent edits cannot overwrite each other
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pendingUpdate.then(task);
+    this.pendingUpdate = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Get a rate card by its version
+   * @returns The rate card, or undefined if the version does not exist
+   */
+  async findRateCardByVersion(version: string): Promise<RateCard | undefined> {
+    const rateCards = await this.findAllRateCards();
+    return rateCards.find((rateCard) => rateCard.version === version);
+  }
+
+  /**
+   * Get the rate card in effect on the given date.
+   * When several versions overlap, the one that started most recently wins.
+   * @param asOfDate - The date to price as of, defaults to today
+   * @throws MissingRateDataException if no rate card is effective on that date
+   */
+  async findRateCard(asOfDate: Date = new Date()): Promise<RateCard> {
+    const day = asOfDate.toISOString().slice(0, 10);
+    const rateCards = await this.findAllRateCards();
+    const [rateCard] = rateCards
+      .filter(
+        (item) =>
+          item.effectiveFrom <= day &&
+          (!item.effectiveTo || day <= item.effectiveTo),
+      )
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+    if (!rateCard) {
+      throw new MissingRateDataException(`No rate card is effective on ${day}`);
+    }
+    return rateCard;
+  }
+}
@@ -0,0 +1,250 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { CostingService } from './costing.service';
+import { FxRateService } from './fx-rate.service';
+import {
+  BaseCalculator,
+  ComplexityLevel,
+  LocationCostRate,
+} from '../calculators/base-calculator';
+import { OptimizeRequestDto } from '../dto/optimize.dto';
+import {
+  OptimizationConstraints,
+  OptimizationResult,
+  OptimizedComponent,
+} from '../interfaces/optimizer.interface';
+import { ENGINE_CURRENCY } from '../data/default-fx-rates';
+
+const DEFAULT_STEP_PERCENT = 10;
+const MAX_EVALUATED_ALLOCATIONS = 250000;
+
+interface CandidateAllocation {
+  percentages: number[];
+  cost: number;
+  hours: number;
+}
+
+/**
+ * Searches resource model splits for the cheapest allocation of each
+ * component. Cost is linear in each location's share (blend rate x working
+ * hours x effort hours), so every split on the percentage grid is priced
+ * from per-location rates and the cheapest one meeting the constraints wins.
+ * Components are optimised independently.
+ */
+@Injectable()
+export class AllocationOptimizerService {
+  private readonly logger = new Logger(AllocationOptimizerService.name);
+
+  constructor(
+    private readonly costingService: CostingService,
+    private readonly fxRateService: FxRateService,
+  ) {}
+
+  /**
+   * @throws BadRequestException if the asset cannot be optimised or no
+   * allocation meets the constraints
+   */
+  async optimize(request: OptimizeRequestDto): Promise<OptimizationResult> {
+    const calculator = this.costingService.getCalculator(request.assetName);
+    if (!(calculator instanceof BaseCalculator)) {
+      throw new BadRequestException(
+        `Asset ${request.assetName} does not support allocation optimisation`,
+      );
+    }
+    const constraints = request.constraints ?? {};
+    this.logger.log(
+      `Optimising allocations for ${request.components.length} component(s) of asset: ${request.assetName}`,
+    );
+
+    const components: OptimizedComponent[] = [];
+    let evaluatedAllocations = 0;
+    for (const componentName of request.components) {
+      // eslint-disable-next-line no-await-in-loop
+      const costRates = await this.getCostRates(
+        calculator,
+        componentName,
+        request.complexity,
+        request.asOfDate,
+      );
+      const locations = Object.keys(costRates).filter(
+        (location) =>
+          !constraints.allowedLocations ||
+          constraints.allowedLocations.includes(location),
+      );
+      const { best, evaluated } = this.search(
+        locations,
+        costRates,
+        constraints,
+      );
+      evaluatedAllocations += evaluated;
+      if (!best) {
+        throw new BadRequestException(
+          `No allocation of component ${componentName} across ${locations.join(', ') || 'no locations'} meets the constraints`,
+        );
+      }
+      components.push({
+        name: componentName,
+        resourceModel: locations
+          .map((location, index) => ({
+            location,
+            allocation: best.percentages[index],
+          }))
+          .filter(({ allocation }) => allocation > 0)
+          .sort((a, b) => b.allocation - a.allocation),
+        buildCost: best.cost,
+        effortHours: Number(best.hours.toFixed(2)),
+      });
+    }
+
+    const currency = request.currency ?? ENGINE_CURRENCY;
+    const { rate } = this.fxRateService.getRate(
+      ENGINE_CURRENCY,
+      currency,
+      request.asOfDate,
+    );
+    const convertedComponents = components.map((component) => ({
+      ...component,
+      buildCost: Number((component.buildCost * rate).toFixed(2)),
+    }));
+    const predictedBuildCost = components.reduce(
+      (total, component) => total + component.buildCost,
+      0,
+    );
+
+    return {
+      assetName: request.assetName,
+      complexity: request.complexity,
+      currency,
+      predictedBuildCost: Number((predictedBuildCost * rate).toFixed(2)),
+      assetComponents: components.map(({ name, resourceModel }) => ({
+        name,
+        resourceModel,
+      })),
+      components: convertedComponents,
+      evaluatedAllocations,
+    };
+  }
+
+  /**
+   * @throws BadRequestException if the component has no effort hours
+   */
+  private async getCostRates(
+    calculator: BaseCalculator,
+    componentName: string,
+    complexity: ComplexityLevel,
+    asOfDate?: Date,
+  ): Promise<Record<string, LocationCostRate>> {
+    try {
+      return await calculator.getLocationCostRates(
+        componentName,
+        complexity,
+        asOfDate,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new BadRequestException(message);
+    }
+  }
+
+  /**
+   * Enumerate every split of 100% across the locations in steps of
+   * stepPercent and keep the cheapest one meeting the constraints.
+   * Ties go to the split using fewer locations.
+   */
+  private search(
+    locations: string[],
+    costRates: Record<string, LocationCostRate>,
+    constraints: OptimizationConstraints,
+  ): { best?: CandidateAllocation; evaluated: number } {
+    const step = constraints.stepPercent ?? DEFAULT_STEP_PERCENT;
+    const slots = 100 / step;
+    if (!Number.isInteger(slots)) {
+      throw new BadRequestException('stepPercent must divide 100');
+    }
+
+    let best: CandidateAllocation | undefined;
+    let evaluated = 0;
+    const percentages: number[] = new Array(locations.length).fill(0);
+
+    const visit = (index: number, remaining: number) => {
+      if (index === locations.length - 1) {
+        percentages[index] = remaining * step;
+        evaluated += 1;
+        if (evaluated > MAX_EVALUATED_ALLOCATIONS) {
+          throw new BadRequestException(
+            'Too many allocations to evaluate; allow fewer locations or a larger stepPercent',
+          );
+        }
+        if (this.meetsConstraints(locations, percentages, constraints)) {
+          const candidate = this.price(locations, percentages, costRates);
+          if (!best || this.isBetter(candidate, best)) {
+            best = candidate;
+          }
+        }
+        return;
+      }
+      for (let share = remaining; share >= 0; share -= 1) {
+        percentages[index] = share * step;
+        visit(index + 1, remaining - share);
+      }
+    };
+    if (locations.length > 0) {
+      visit(0, slots);
+    }
+    return { best, evaluated };
+  }
+
+  private meetsConstraints(
+    locations: string[],
+    percentages: number[],
+    constraints: OptimizationConstraints,
+  ): boolean {
+    const used = percentages.filter((percentage) => percentage > 0).length;
+    if (
+      constraints.maxLocationsPerComponent !== undefined &&
+      used > constraints.maxLocationsPerComponent
+    ) {
+      return false;
+    }
+    return (constraints.limits ?? []).every((limit) => {
+      const total = locations.reduce(
+        (sum, location, index) =>
+          limit.locations.includes(location) ? sum + percentages[index] : sum,
+        0,
+      );
+      return (
+        total >= (limit.minPercent ?? 0) && total <= (limit.maxPercent ?? 100)
+      );
+    });
+  }
+
+  /**
+   * Price a split the way calculateEffortBasedComponentCost does,
+   * rounding each location's amount
+   */
+  private price(
+    locations: string[],
+    percentages: number[],
+    costRates: Record<string, LocationCostRate>,
+  ): CandidateAllocation {
+    let cost = 0;
+    let hours = 0;
+    locations.forEach((location, index) => {
+      const share = percentages[index] / 100;
+      cost += Number((share * costRates[location].cost).toFixed(2));
+      hours += share * costRates[location].hours;
+    });
+    return { percentages: [...percentages], cost, hours };
+  }
+
+  private isBetter(
+    candidate: CandidateAllocation,
+    best: CandidateAllocation,
+  ): boolean {
+    if (Math.abs(candidate.cost - best.cost) > 0.005) {
+      return candidate.cost < best.cost;
+    }
+    const count = (allocation: CandidateAllocation) =>
+      allocation.percentages.filter((percentage) => percentage > 0).length;
+    return count(candidate) < count(best);
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AssetEffortCatalog,
+  ComponentEffort,
+  RateCard,
+} from '../interfaces/rate-card.interface';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { LocationRegistryService } from './location-registry.service';
+import { findInvalidEffortRanges } from '../utils/pert.util';
+import {
+  findTargetRateCard,
+  updateTargetRateCard,
+} from '../utils/rate-card.util';
+
+/**
+ * Manages the component effort catalogs of each asset stored in the rate cards
+ */
+@Injectable()
+export class AssetCatalogAdminService {
+  private readonly logger = new Logger(AssetCatalogAdminService.name);
+
+  constructor(
+    private readonly rateCardRepository: RateCardRepository,
+    private readonly locationRegistry: LocationRegistryService,
+  ) {}
+
+  /**
+   * List the components of an asset with their effort tables
+   * @throws NotFoundException if the asset has no effort catalog
+   */
+  async findComponents(
+    assetName: string,
+    version?: string,
+  ): Promise<ComponentEffort[]> {
+    const rateCard = await findTargetRateCard(this.rateCardRepository, version);
+    return this.findCatalog(rateCard, assetName).components;
+  }
+
+  /**
+   * Get one component of an asset with its effort table
+   * @throws NotFoundException if the asset or component does not exist
+   */
+  async findComponent(
+    assetName: string,
+    componentName: string,
+    version?: string,
+  ): Promise<ComponentEffort> {
+    const rateCard = await findTargetRateCard(this.rateCardRepository, version);
+    const catalog = this.findCatalog(rateCard, assetName);
+    return catalog.components[
+      this.findComponentIndex(catalog, componentName, rateCard.version)
+    ];
+  }
+
+  /**
+   * Add a component to an asset, creating the asset's catalog if needed.
+   * The component is priced from the next request onwards.
+   * @throws BadRequestException if no rate card version is given
+   * @throws ConflictException if the component already exists
+   */
+  async createComponent(
+    assetName: string,
+    component: ComponentEffort,
+    version?: string,
+  ): Promise<ComponentEffort> {
+    this.validateEfforts(component);
+    await updateTargetRateCard(this.rateCardRepository, version, (rateCard) => {
+      let catalog = rateCard.assets.find((asset) => asset.name === assetName);
+      if (!catalog) {
+        catalog = { name: assetName, components: [] };
+        rateCard.assets.push(catalog);
+      }
+      if (catalog.components.some((item) => item.name === component.name)) {
+        throw new ConflictException(
+          `Component "${component.name}" already exists for asset ${assetName} in rate card ${rateCard.version}`,
+        );
+      }
+      catalog.components.push(component);
+    });
+    this.logger.log(
+      `Created component "${component.name}" for asset ${assetName} in rate card ${version}`,
+    );
+    return component;
+  }
+
+  /**
+   * Replace the effort table of an existing component. Its three-point
+   * effort ranges are replaced when given and kept otherwise
+   * @throws BadRequestException if no rate card version is given
+   * @throws NotFoundException if the asset or component does not exist
+   */
+  async updateComponent(
+    assetName: string,
+    componentName: string,
+    update: Pick<ComponentEffort, 'efforts' | 'effortRanges'>,
+    version?: string,
+  ): Promise<ComponentEffort> {
+    this.validateEfforts({ name: componentName, ...update });
+    const component = await updateTargetRateCard(
+      this.rateCardRepository,
+      version,
+      (rateCard) => {
+        const catalog = this.findCatalog(rateCard, assetName);
+        const index = this.findComponentIndex(
+          catalog,
+          componentName,
+          rateCard.version,
+        );
+        const effortRanges =
+          update.effortRanges ?? catalog.components[index].effortRanges;
+        catalog.components[index] = {
+          name: componentName,
+          efforts: update.efforts,
+          ...(effortRanges && { effortRanges }),
+        };
+        return catalog.components[index];
+      },
+    );
+    this.logger.log(
+      `Updated component "${componentName}" for asset ${assetName} in rate card ${version}`,
+    );
+    return component;
+  }
+
+  /**
+   * Remove a component from an asset
+   * @throws BadRequestException if no rate card version is given
+   * @throws NotFoundException if the asset or component does not exist
+   */
+  async removeComponent(
+    assetName: string,
+    componentName: string,
+    version?: string,
+  ): Promise<void> {
+    await updateTargetRateCard(this.rateCardRepository, version, (rateCard) => {
+      const catalog = this.findCatalog(rateCard, assetName);
+      const index = this.findComponentIndex(
+        catalog,
+        componentName,
+        rateCard.version,
+      );
+      catalog.components.splice(index, 1);
+    });
+    this.logger.log(
+      `Deleted component "${componentName}" from asset ${assetName} in rate card ${version}`,
+    );
+  }
+
+  /**
+   * @throws NotFoundException if the asset has no effort catalog
+   */
+  private findCatalog(
+    rateCard: RateCard,
+    assetName: string,
+  ): AssetEffortCatalog {
+    const catalog = rateCard.assets.find((asset) => asset.name === assetName);
+    if (!catalog) {
+      throw new NotFoundException(
+        `No effort catalog found for asset ${assetName} in rate card ${rateCard.version}`,
+      );
+    }
+    return catalog;
+  }
+
+  /**
+   * @throws NotFoundException if the component does not exist
+   */
+  private findComponentIndex(
+    catalog: AssetEffortCatalog,
+    componentName: string,
+    version: string,
+  ): number {
+    const index = catalog.components.findIndex(
+      (item) => item.name === componentName,
+    );
+    if (index === -1) {
+      throw new NotFoundException(
+        `Component "${componentName}" not found for asset ${catalog.name} in rate card ${version}`,
+      );
+    }
+    return index;
+  }
+
+  /**
+   * @throws BadRequestException if no complexity level has effort data, a
+   * location is not in the location registry, or an effort range is not
+   * optimistic <= mostLikely <= pessimistic
+   */
+  private validateEfforts(component: ComponentEffort): void {
+    if (Object.keys(component.efforts).length === 0) {
+      throw new BadRequestException(
+        `Component "${component.name}" needs effort hours for at least one complexity level`,
+      );
+    }
+    const locations = [
+      ...Object.values(component.efforts),
+      ...Object.values(component.effortRanges ?? {}),
+    ].flatMap((byLocation) => Object.keys(byLocation ?? {}));
+    const unknownLocations = [...new Set(locations)].filter(
+      (location) => !this.locationRegistry.findLocation(location),
+    );
+    if (unknownLocations.length > 0) {
+      throw new BadRequestException(
+        `Component "${component.name}" has effort data for unknown location(s): ${unknownLocations.join(', ')}`,
+      );
+    }
+    const invalidRanges = findInvalidEffortRanges(component);
+    if (invalidRanges.length > 0) {
+      throw new BadRequestException(invalidRanges);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetSpec } from '../interfaces/asset-spec.interface';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { SpecCalculator } from '../calculators/spec-calculator';
+import { listDataFiles, readDataFile } from '../utils/data-file.util';
+import { compileFormula } from '../utils/formula.util';
+import { findInvalidEffortRanges } from '../utils/pert.util';
+import { CostingService } from './costing.service';
+import { LocationRegistryService } from './location-registry.service';
+import { FxRateService } from './fx-rate.service';
+
+/**
+ * Loads declarative asset specs from ASSET_SPEC_DIR (one JSON or YAML file
+ * per asset) and registers a SpecCalculator for each with CostingService.
+ * Loading waits for bootstrap so the built-in calculators are registered first.
+ */
+@Injectable()
+export class AssetSpecService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AssetSpecService.name);
+
+  private specs: AssetSpec[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly costingService: CostingService,
+    private readonly rateCardRepository: RateCardRepository,
+    private readonly locationRegistry: LocationRegistryService,
+    private readonly fxRateService: FxRateService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const assetSpecDir = this.configService.get<string>('ASSET_SPEC_DIR');
+    if (!assetSpecDir) {
+      return;
+    }
+    this.logger.log(`Loading asset specs from ${assetSpecDir}`);
+    for (const filePath of await listDataFiles(assetSpecDir)) {
+      // eslint-disable-next-line no-await-in-loop
+      const spec = await readDataFile<AssetSpec>(filePath);
+      this.register(spec, filePath);
+    }
+  }
+
+  /**
+   * Validate an asset spec and register a calculator for it
+   * @param source - Where the spec came from, used in error messages
+   * @throws Error if the spec is invalid or the asset already has a calculator
+   */
+  register(spec: AssetSpec, source = 'asset spec'): SpecCalculator {
+    const errors = this.validateSpec(spec);
+    if (errors.length > 0) {
+      throw new Error(`Invalid asset spec in ${source}: ${errors.join(', ')}`);
+    }
+    if (this.costingService.getAvailableAssetNames().includes(spec.name)) {
+      throw new Error(
+        `Asset spec in ${source} redefines asset ${spec.name}, which already has a calculator`,
+      );
+    }
+
+    const calculator = new SpecCalculator(
+      spec,
+      this.rateCardRepository,
+      this.locationRegistry,
+      this.fxRateService,
+    );
+    this.costingService.registerCalculator(calculator);
+    this.specs.push(spec);
+    this.logger.log(`Registered asset ${spec.name} from ${source}`);
+    return calculator;
+  }
+
+  /**
+   * Get every asset spec that has been registered
+   */
+  findAll(): AssetSpec[] {
+    return this.specs;
+  }
+
+  /**
+   * @returns The problems found in the spec, empty if it is valid
+   */
+  private validateSpec(spec: AssetSpec): string[] {
+    const errors: string[] = [];
+    if (!spec?.name) {
+      errors.push('name is required');
+    }
+    if (!Array.isArray(spec?.components) || spec.components.length === 0) {
+      errors.push('components must list at least one component');
+    } else {
+      errors.push(...spec.components.flatMap(findInvalidEffortRanges));
+    }
+    if (!['monthly', 'yearly'].includes(spec?.runCost?.period)) {
+      errors.push('runCost.period must be monthly or yearly');
+    }
+    if (!Array.isArray(spec?.runCost?.items)) {
+      errors.push('runCost.items must be a list');
+      return errors;
+    }
+
+    const numberFields = (spec.specificFields ?? []).filter(
+      (field) => field.type === 'number',
+    );
+    for (const item of spec.runCost.items) {
+      if (!item.name) {
+        errors.push('every run-cost item needs a name');
+      } else if (
+        (typeof item.amount === 'number') ===
+        (typeof item.formula === 'string')
+      ) {
+        errors.push(
+          `run-cost item ${item.name} needs either a numeric amount or a formula`,
+        );
+      } else if (item.formula) {
+        try {
+          compileFormula(item.formula);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          errors.push(`run-cost item ${item.name}: ${message}`);
+        }
+      }
+      const quantityField = numberFields.find(
+        (field) => field.name === item.multiplyBy,
+      );
+      if (item.multiplyBy && !quantityField) {
+        errors.push(
+          `run-cost item ${item.name} multiplies by ${item.multiplyBy}, which is not a declared number field`,
+        );
+      } else if (item.multiplyBy && !quantityField?.required) {
+        errors.push(
+          `run-cost item ${item.name} multiplies by ${item.multiplyBy}, which must be a required field`,
+        );
+      }
+    }
+    return errors;
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ComplexityLevel } from '../calculators/base-calculator';
+import { BlendRate, RateCard } from '../interfaces/rate-card.interface';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { MissingRateDataException } from '../exceptions/costing.exception';
+import { ENGINE_CURRENCY } from '../data/default-fx-rates';
+import { FxRateService } from './fx-rate.service';
+import {
+  findTargetRateCard,
+  updateTargetRateCard,
+} from '../utils/rate-card.util';
+
+/**
+ * Manages the location blend rates stored in the rate cards
+ */
+@Injectable()
+export class BlendRateAdminService {
+  private readonly logger = new Logger(BlendRateAdminService.name);
+
+  constructor(
+    private readonly rateCardRepository: RateCardRepository,
+    private readonly fxRateService: FxRateService,
+  ) {}
+
+  /**
+   * List blend rates, optionally only those scoped to one asset
+   */
+  async findAll(version?: string, assetName?: string): Promise<BlendRate[]> {
+    const rateCard = await findTargetRateCard(this.rateCardRepository, version);
+    return rateCard.blendRates.filter(
+      (blendRate) => !assetName || blendRate.assetName === assetName,
+    );
+  }
+
+  /**
+   * Get the blend rate for a location
+   * @throws NotFoundException if the location has no blend rate
+   */
+  async findOne(
+    location: string,
+    assetName?: string,
+    version?: string,
+  ): Promise<BlendRate> {
+    const rateCard = await findTargetRateCard(this.rateCardRepository, version);
+    return rateCard.blendRates[
+      this.findBlendRateIndex(rateCard, location, assetName)
+    ];
+  }
+
+  /**
+   * Add a blend rate for a location
+   * @throws BadRequestException if no rate card version is given, or the
+   * currency cannot be converted on the rate card's effective date
+   * @throws ConflictException if the location already has a blend rate
+   */
+  async create(blendRate: BlendRate, version?: string): Promise<BlendRate> {
+    await updateTargetRateCard(this.rateCardRepository, version, (rateCard) => {
+      this.checkCurrency(blendRate, rateCard);
+      if (
+        rateCard.blendRates.some((item) =>
+          this.isMatch(item, blendRate.location, blendRate.assetName),
+        )
+      ) {
+        throw new ConflictException(
+          `Blend rate already exists for ${this.describe(blendRate.location, blendRate.assetName)} in rate card ${rateCard.version}`,
+        );
+      }
+      rateCard.blendRates.push(blendRate);
+    });
+    this.logger.log(
+      `Created blend rate for ${this.describe(blendRate.location, blendRate.assetName)} in rate card ${version}`,
+    );
+    return blendRate;
+  }
+
+  /**
+   * Replace the rates of an existing location blend rate
+   * @throws BadRequestException if no rate card version is given, or the
+   * currency cannot be converted on the rate card's effective date
+   * @throws NotFoundException if the location has no blend rate
+   */
+  async update(
+    location: string,
+    rates: Record<ComplexityLevel, number>,
+    assetName?: string,
+    version?: string,
+  ): Promise<BlendRate> {
+    const blendRate = await updateTargetRateCard(
+      this.rateCardRepository,
+      version,
+      (rateCard) => {
+        const { blendRates } = rateCard;
+        const index = this.findBlendRateIndex(rateCard, location, assetName);
+        blendRates[index] = { ...blendRates[index], rates };
+        this.checkCurrency(blendRates[index], rateCard);
+        return blendRates[index];
+      },
+    );
+    this.logger.log(
+      `Updated blend rate for ${this.describe(location, assetName)} in rate card ${version}`,
+    );
+    return blendRate;
+  }
+
+  /**
+   * Delete the blend rate for a location
+   * @throws BadRequestException if no rate card version is given
+   * @throws NotFoundException if the location has no blend rate
+   */
+  async remove(
+    location: string,
+    assetName?: string,
+    version?: string,
+  ): Promise<void> {
+    await updateTargetRateCard(this.rateCardRepository, version, (rateCard) => {
+      const index = this.findBlendRateIndex(rateCard, location, assetName);
+      rateCard.blendRates.splice(index, 1);
+    });
+    this.logger.log(
+      `Deleted blend rate for ${this.describe(location, assetName)} in rate card ${version}`,
+    );
+  }
+
+  /**
+   * Check that the FX table in effect when the rate card starts can convert
+   * the blend rate, so a saved rate cannot fail pricing
+   * @throws BadRequestException if the currency has no FX rate
+   */
+  private checkCurrency(blendRate: BlendRate, rateCard: RateCard): void {
+    const currency = blendRate.currency ?? ENGINE_CURRENCY;
+    if (currency === ENGINE_CURRENCY) {
+      return;
+    }
+    try {
+      this.fxRateService.getRate(
+        currency,
+        ENGINE_CURRENCY,
+        new Date(rateCard.effectiveFrom),
+      );
+    } catch (error) {
+      if (error instanceof MissingRateDataException) {
+        throw new BadRequestException(
+          `Blend rate currency ${currency} cannot be used in rate card ${rateCard.version}: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @throws NotFoundException if the location has no blend rate
+   */
+  private findBlendRateIndex(
+    rateCard: RateCard,
+    location: string,
+    assetName?: string,
+  ): number {
+    const index = rateCard.blendRates.findIndex((item) =>
+      this.isMatch(item, location, assetName),
+    );
+    if (index === -1) {
+      throw new NotFoundException(
+        `Blend rate not found for ${this.describe(location, assetName)} in rate card ${rateCard.version}`,
+      );
+    }
+    return index;
+  }
+
+  private isMatch(
+    blendRate: BlendRate,
+    location: string,
+    assetName?: string,
+  ): boolean {
+    return (
+      blendRate.location === location &&
+      (blendRate.assetName || undefined) === (assetName || undefined)
+    );
+  }
+
+  private describe(location: string, assetName?: string): string {
+    return assetName
+      ? `location "${location}" on asset ${assetName}`
+      : `location "${location}"`;
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { AssetCalculator } from '../decorators/asset-calculator.decorator';
+import { CostCalculator } from '../interfaces/costing.interface';
+import { CostingService } from './costing.service';
+
+/**
+ * Registers every provider decorated with @AssetCalculator with CostingService
+ */
+@Injectable()
+export class CalculatorDiscoveryService implements OnModuleInit {
+  private readonly logger = new Logger(CalculatorDiscoveryService.name);
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly costingService: CostingService,
+  ) {}
+
+  /**
+   * @throws Error if a calculator's asset name does not match its decorator,
+   * or two calculators claim the same asset
+   */
+  onModuleInit(): void {
+    const wrappers = this.discoveryService.getProviders({
+      metadataKey: AssetCalculator.KEY,
+    });
+    this.logger.log(`Discovered ${wrappers.length} asset calculator(s)`);
+
+    for (const wrapper of wrappers) {
+      const assetName = this.discoveryService.getMetadataByDecorator(
+        AssetCalculator,
+        wrapper,
+      );
+      const calculator = wrapper.instance as CostCalculator;
+      if (calculator.getAssetName() !== assetName) {
+        throw new Error(
+          `${wrapper.name} is decorated with @AssetCalculator('${assetName}') but calculates ${calculator.getAssetName()}`,
+        );
+      }
+      this.costingService.registerCalculator(calculator);
+    }
+  }
+}
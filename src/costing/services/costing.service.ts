@@ -4,6 +4,9 @@ import {
   AssetCostResponse,
   CostCalculator,
 } from '../interfaces/costing.interface';
+import { SpecificFieldsSchema } from '../interfaces/json-schema.interface';
+import { AssetMetadata } from '../interfaces/asset-metadata.interface';
+import { JSON_SCHEMA_DIALECT } from '../utils/json-schema.util';
 import { CostRequestDto } from '../dto/cost-request.dto';
 
 @Injectable()
@@ -12,12 +15,31 @@ export class CostingService {
 
   private calculators: Map<string, CostCalculator> = new Map();
 
+  /**
+   * Register the calculator for an asset
+   * @throws Error if another calculator is already registered for the asset
+   */
   registerCalculator(calculator: CostCalculator): void {
     const assetName = calculator.getAssetName();
+    const existing = this.calculators.get(assetName);
+    if (existing && existing !== calculator) {
+      const errorMsg = `Duplicate calculator for asset ${assetName}: ${existing.constructor.name} and ${calculator.constructor.name}`;
+      this.logger.error(errorMsg);
+      throw new Error(errorMsg);
+    }
     this.logger.log(`Registering calculator for asset: ${assetName}`);
     this.calculators.set(assetName, calculator);
   }
 
+  /**
+   * Remove the calculator for an asset, if one is registered
+   */
+  unregisterCalculator(assetName: string): void {
+    if (this.calculators.delete(assetName)) {
+      this.logger.log(`Unregistered calculator for asset: ${assetName}`);
+    }
+  }
+
   getCalculator(assetName: string): CostCalculator {
     this.logger.log(
       `Attempting to retrieve calculator for asset: ${assetName}`,
@@ -50,6 +72,12 @@ export class CostingService {
       commonFields: request.commonFields,
       assetComponents: request.assetComponents,
       specificFields: request.specificFields,
+      asOfDate: request.asOfDate,
+      currency: request.currency,
+      riskLevel: request.riskLevel,
+      pricing: request.pricing,
+      adjustments: request.adjustments,
+      staffing: request.staffing,
     };
 
     try {
@@ -68,6 +96,64 @@ export class CostingService {
     }
   }
 
+  /**
+   * Get the JSON Schema of an asset's specificFields
+   * @throws NotFoundException if no calculator is registered for the asset
+   */
+  getSpecificFieldsSchema(assetName: string): SpecificFieldsSchema {
+    const calculator = this.getCalculator(assetName);
+    return (
+      calculator.getSpecificFieldsSchema?.() ?? {
+        $schema: JSON_SCHEMA_DIALECT,
+        title: `${assetName} specificFields`,
+        type: 'object',
+        properties: {},
+      }
+    );
+  }
+
+  /**
+   * Describe every registered asset that publishes metadata. An asset whose
+   * metadata cannot be built is logged and left out, so one broken
+   * calculator does not hide the others.
+   */
+  async getAllAssetMetadata(): Promise<AssetMetadata[]> {
+    const calculators = [...this.calculators.values()].filter((calculator) => {
+      if (!calculator.getMetadata) {
+        this.logger.debug(
+          `Calculator for ${calculator.getAssetName()} publishes no metadata`,
+        );
+      }
+      return Boolean(calculator.getMetadata);
+    });
+    const results = await Promise.allSettled(
+      calculators.map((calculator) => calculator.getMetadata!()),
+    );
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') {
+        return [result.value];
+      }
+      const { reason }: { reason: unknown } = result;
+      const message = reason instanceof Error ? reason.message : String(reason);
+      this.logger.error(
+        `Failed to describe asset ${calculators[index].getAssetName()}: ${message}`,
+      );
+      return [];
+    });
+  }
+
+  /**
+   * Describe an asset: its components, locations and specificFields
+   * @throws NotFoundException if the asset is unknown or publishes no metadata
+   */
+  getAssetMetadata(assetName: string): Promise<AssetMetadata> {
+    const calculator = this.getCalculator(assetName);
+    if (!calculator.getMetadata) {
+      throw new NotFoundException(`Asset ${assetName} publishes no metadata`);
+    }
+    return calculator.getMetadata();
+  }
+
   getAvailableAssetNames(): string[] {
     this.logger.log('Retrieving available asset names');
     return Array.from(this.calculators.keys());
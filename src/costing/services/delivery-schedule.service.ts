@@ -0,0 +1,254 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { CostingService } from './costing.service';
+import { LocationRegistryService } from './location-registry.service';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { ScheduleRequestDto } from '../dto/schedule.dto';
+import {
+  ComponentSchedule,
+  DeliveryScheduleResponse,
+  LocationSchedule,
+  MonthlySpend,
+} from '../interfaces/schedule.interface';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MAX_SCHEDULE_DAYS = 3653;
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Effort-based build work on one component at one location
+ */
+interface WorkItem {
+  componentName: string;
+  effortHours: number;
+  amount: number;
+}
+
+interface ScheduledWork extends LocationSchedule {
+  componentName: string;
+}
+
+/**
+ * Lays the effort of an estimate out on each location's working calendar
+ * to give delivery dates and a monthly build spend curve
+ */
+@Injectable()
+export class DeliveryScheduleService {
+  private readonly logger = new Logger(DeliveryScheduleService.name);
+
+  constructor(
+    private readonly costingService: CostingService,
+    private readonly locationRegistry: LocationRegistryService,
+    private readonly holidayCalendarService: HolidayCalendarService,
+  ) {}
+
+  /**
+   * Schedule the build of an asset. Each location's team works through
+   * the components in request order, and locations work in parallel.
+   * Build cost that is not effort-based is spent in the first month.
+   * @throws BadRequestException if a location has no team size, there is
+   * no effort to schedule, or delivery would take more than ten years
+   */
+  async schedule(
+    request: ScheduleRequestDto,
+  ): Promise<DeliveryScheduleResponse> {
+    const { startDate, teamSizes, ...costRequest } = request;
+    const estimate = await this.costingService.calculateAssetCost(costRequest);
+    const start = toIsoDate(startDate);
+
+    const work = new Map<string, WorkItem[]>();
+    let fixedAmount = 0;
+    for (const item of estimate.buildCost.breakdown) {
+      if (item.effortBreakdown) {
+        for (const line of item.effortBreakdown) {
+          if (line.effortHours > 0) {
+            const items = work.get(line.deliveryLocation) ?? [];
+            items.push({
+              componentName: item.costComponentName,
+              effortHours: line.effortHours,
+              amount: line.effortAmount,
+            });
+            work.set(line.deliveryLocation, items);
+          }
+        }
+      } else {
+        fixedAmount += item.amount;
+      }
+    }
+    if (work.size === 0) {
+      throw new BadRequestException(
+        `Asset ${estimate.assetName} has no effort-based build cost to schedule`,
+      );
+    }
+    const missing = [...work.keys()].filter((location) => !teamSizes[location]);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `No team size given for location(s): ${missing.join(', ')}`,
+      );
+    }
+    this.logger.log(
+      `Scheduling ${estimate.assetName} across ${work.size} location(s) from ${start}`,
+    );
+
+    const spend = new Map<string, number>();
+    spend.set(start.slice(0, 7), fixedAmount);
+    const locationSchedules: ScheduledWork[] = [];
+    for (const [location, items] of work) {
+      locationSchedules.push(
+        ...this.scheduleLocation(
+          location,
+          teamSizes[location],
+          items,
+          new Date(start),
+          spend,
+        ),
+      );
+    }
+
+    const components = this.groupByComponent(locationSchedules);
+    const endDate = components
+      .map((component) => component.endDate)
+      .reduce((latest, date) => (date > latest ? date : latest));
+
+    return {
+      assetName: estimate.assetName,
+      currency: estimate.buildCost.currency,
+      buildCost: estimate.buildCost.total,
+      startDate: start,
+      endDate,
+      calendarDays: daysBetween(start, endDate),
+      components,
+      monthlySpend: this.getMonthlySpend(spend, start, endDate),
+    };
+  }
+
+  /**
+   * Work through a location's items day by day, spending each item's
+   * cost on the days its hours are worked
+   */
+  private scheduleLocation(
+    location: string,
+    teamSize: number,
+    items: WorkItem[],
+    start: Date,
+    spend: Map<string, number>,
+  ): ScheduledWork[] {
+    const deliveryLocation = this.locationRegistry.getLocation(location);
+    const capacity = teamSize * deliveryLocation.workingHoursPerDay;
+    const lastDay = addDays(start, MAX_SCHEDULE_DAYS);
+    const schedules: ScheduledWork[] = [];
+
+    let day = start;
+    let usedToday = 0;
+    for (const item of items) {
+      const costPerHour = item.amount / item.effortHours;
+      let remaining = item.effortHours;
+      let firstWorked: Date | undefined;
+      let lastWorked = day;
+
+      while (remaining > 1e-9) {
+        if (day > lastDay) {
+          throw new BadRequestException(
+            `Delivery in ${location} would take more than ten years with a team of ${teamSize}`,
+          );
+        }
+        if (
+          usedToday >= capacity ||
+          !this.holidayCalendarService.isWorkingDay(
+            deliveryLocation.holidayCalendar,
+            day,
+          )
+        ) {
+          day = addDays(day, 1);
+          usedToday = 0;
+        } else {
+          const hours = Math.min(remaining, capacity - usedToday);
+          const month = toIsoDate(day).slice(0, 7);
+          spend.set(month, (spend.get(month) ?? 0) + hours * costPerHour);
+          usedToday += hours;
+          remaining -= hours;
+          firstWorked = firstWorked ?? day;
+          lastWorked = day;
+        }
+      }
+
+      schedules.push({
+        componentName: item.componentName,
+        location,
+        teamSize,
+        effortHours: round(item.effortHours),
+        workingDays: round(item.effortHours / capacity),
+        startDate: toIsoDate(firstWorked ?? day),
+        endDate: toIsoDate(lastWorked),
+      });
+    }
+    return schedules;
+  }
+
+  private groupByComponent(schedules: ScheduledWork[]): ComponentSchedule[] {
+    const components = new Map<string, ComponentSchedule>();
+    for (const { componentName, ...schedule } of schedules) {
+      const component = components.get(componentName) ?? {
+        componentName,
+        startDate: schedule.startDate,
+        endDate: schedule.endDate,
+        calendarDays: 0,
+        locations: [],
+      };
+      component.locations.push(schedule);
+      if (schedule.startDate < component.startDate) {
+        component.startDate = schedule.startDate;
+      }
+      if (schedule.endDate > component.endDate) {
+        component.endDate = schedule.endDate;
+      }
+      component.calendarDays = daysBetween(
+        component.startDate,
+        component.endDate,
+      );
+      components.set(componentName, component);
+    }
+    return [...components.values()];
+  }
+
+  /**
+   * List the spend of every month from the start to the end of delivery
+   */
+  private getMonthlySpend(
+    spend: Map<string, number>,
+    startDate: string,
+    endDate: string,
+  ): MonthlySpend[] {
+    const monthlySpend: MonthlySpend[] = [];
+    const endMonth = endDate.slice(0, 7);
+    let cumulativeAmount = 0;
+    const cursor = new Date(`${startDate.slice(0, 7)}-01`);
+    while (toIsoDate(cursor).slice(0, 7) <= endMonth) {
+      const month = toIsoDate(cursor).slice(0, 7);
+      const amount = spend.get(month) ?? 0;
+      cumulativeAmount += amount;
+      monthlySpend.push({
+        month,
+        amount: round(amount),
+        cumulativeAmount: round(cumulativeAmount),
+      });
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return monthlySpend;
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppliedFxRate, FxRateTable } from '../interfaces/fx-rate.interface';
+import { DEFAULT_FX_RATE_TABLES } from '../data/default-fx-rates';
+import { readDataFile } from '../utils/data-file.util';
+import { MissingRateDataException } from '../exceptions/costing.exception';
+
+/**
+ * Converts amounts between currencies using dated FX tables.
+ * Loaded from FX_RATES_FILE (an `fxTables` list) when set,
+ * otherwise the built-in tables are used.
+ */
+@Injectable()
+export class FxRateService implements OnModuleInit {
+  private readonly logger = new Logger(FxRateService.name);
+
+  private tables: FxRateTable[] = structuredClone(DEFAULT_FX_RATE_TABLES);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const fxRatesFile = this.configService.get<string>('FX_RATES_FILE');
+    if (!fxRatesFile) {
+      return;
+    }
+    this.logger.log(`Loading FX tables from ${fxRatesFile}`);
+    const { fxTables } = await readDataFile<{ fxTables: FxRateTable[] }>(
+      fxRatesFile,
+    );
+    if (!Array.isArray(fxTables) || fxTables.length === 0) {
+      throw new Error(`FX rates file ${fxRatesFile} has no fxTables list`);
+    }
+    this.tables = fxTables.map((table) => ({
+      ...table,
+      version: String(table.version),
+      asOfDate: String(table.asOfDate),
+    }));
+  }
+
+  /**
+   * Get the latest FX table dated on or before the given date
+   * @param asOfDate - The date to convert as of, defaults to today
+   * @throws MissingRateDataException if every FX table is dated after that date
+   */
+  findTable(asOfDate: Date = new Date()): FxRateTable {
+    const day = asOfDate.toISOString().slice(0, 10);
+    const [table] = this.tables
+      .filter((item) => item.asOfDate <= day)
+      .sort((a, b) => b.asOfDate.localeCompare(a.asOfDate));
+    if (!table) {
+      throw new MissingRateDataException(`No FX table is available on ${day}`);
+    }
+    return table;
+  }
+
+  /**
+   * Get the rate that converts one unit of fromCurrency into toCurrency
+   * @param asOfDate - Use the FX table in effect on this date
+   * @throws MissingRateDataException if either currency is missing from the FX table
+   */
+  getRate(
+    fromCurrency: string,
+    toCurrency: string,
+    asOfDate?: Date,
+  ): AppliedFxRate {
+    const table = this.findTable(asOfDate);
+    const rate =
+      this.getUnitsPerBase(table, toCurrency) /
+      this.getUnitsPerBase(table, fromCurrency);
+    return { fromCurrency, toCurrency, rate, tableVersion: table.version };
+  }
+
+  /**
+   * Convert an amount between currencies
+   * @param asOfDate - Use the FX table in effect on this date
+   * @throws MissingRateDataException if either currency is missing from the FX table
+   */
+  convert(
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    asOfDate?: Date,
+  ): number {
+    if (fromCurrency === toCurrency) {
+      return amount;
+    }
+    return amount * this.getRate(fromCurrency, toCurrency, asOfDate).rate;
+  }
+
+  /**
+   * @throws MissingRateDataException if the currency is missing from the FX table
+   */
+  private getUnitsPerBase(table: FxRateTable, currency: string): number {
+    if (currency === table.baseCurrency) {
+      return 1;
+    }
+    const rate = table.rates[currency];
+    if (!rate) {
+      const errorMsg = `No FX rate for currency ${currency} in FX table ${table.version}`;
+      this.logger.error(errorMsg);
+      throw new MissingRateDataException(errorMsg);
+    }
+    return rate;
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HolidayCalendar } from '../interfaces/holiday-calendar.interface';
+import { DEFAULT_HOLIDAY_CALENDARS } from '../data/default-holiday-calendars';
+import { readDataFile } from '../utils/data-file.util';
+
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/**
+ * Tells working days from weekends and public holidays for each holiday
+ * calendar. Loaded from HOLIDAY_CALENDARS_FILE (a `holidayCalendars` list)
+ * when set, otherwise the built-in calendars are used.
+ */
+@Injectable()
+export class HolidayCalendarService implements OnModuleInit {
+  private readonly logger = new Logger(HolidayCalendarService.name);
+
+  private calendars = new Map<
+    string,
+    { weekendDays: number[]; holidays: Set<string> }
+  >();
+
+  constructor(private readonly configService: ConfigService) {
+    this.setCalendars(DEFAULT_HOLIDAY_CALENDARS);
+  }
+
+  async onModuleInit(): Promise<void> {
+    const calendarsFile = this.configService.get<string>(
+      'HOLIDAY_CALENDARS_FILE',
+    );
+    if (!calendarsFile) {
+      return;
+    }
+    this.logger.log(`Loading holiday calendars from ${calendarsFile}`);
+    const { holidayCalendars } = await readDataFile<{
+      holidayCalendars: HolidayCalendar[];
+    }>(calendarsFile);
+    if (!Array.isArray(holidayCalendars)) {
+      throw new Error(
+        `Holiday calendars file ${calendarsFile} has no holidayCalendars list`,
+      );
+    }
+    this.setCalendars(
+      holidayCalendars.map((calendar) => ({
+        ...calendar,
+        holidays: (calendar.holidays ?? []).map(String),
+      })),
+    );
+  }
+
+  /**
+   * Check whether a date is a working day in a holiday calendar.
+   * A calendar that is not registered only has weekends off.
+   */
+  isWorkingDay(calendarCode: string, date: Date): boolean {
+    const calendar = this.calendars.get(calendarCode);
+    const weekendDays = calendar?.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+    if (weekendDays.includes(date.getUTCDay())) {
+      return false;
+    }
+    return !calendar?.holidays.has(date.toISOString().slice(0, 10));
+  }
+
+  private setCalendars(calendars: HolidayCalendar[]): void {
+    this.calendars = new Map(
+      calendars.map((calendar) => [
+        calendar.code,
+        {
+          weekendDays: calendar.weekendDays ?? DEFAULT_WEEKEND_DAYS,
+          holidays: new Set(calendar.holidays),
+        },
+      ]),
+    );
+    this.logger.debug(`Registered ${calendars.length} holiday calendar(s)`);
+  }
+}
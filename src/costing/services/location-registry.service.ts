@@ -0,0 +1,63 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeliveryLocation } from '../interfaces/location.interface';
+import { DEFAULT_LOCATIONS } from '../data/default-locations';
+import { readDataFile } from '../utils/data-file.util';
+import { UnsupportedLocationException } from '../exceptions/costing.exception';
+
+/**
+ * Central registry of delivery locations with their working hours,
+ * currency and holiday calendar. Loaded from LOCATIONS_FILE when set,
+ * otherwise the built-in locations are used.
+ */
+@Injectable()
+export class LocationRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(LocationRegistryService.name);
+
+  private locations: DeliveryLocation[] = structuredClone(DEFAULT_LOCATIONS);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const locationsFile = this.configService.get<string>('LOCATIONS_FILE');
+    if (!locationsFile) {
+      return;
+    }
+    this.logger.log(`Loading locations from ${locationsFile}`);
+    const { locations } = await readDataFile<{
+      locations: DeliveryLocation[];
+    }>(locationsFile);
+    if (!Array.isArray(locations)) {
+      throw new Error(`Locations file ${locationsFile} has no locations list`);
+    }
+    this.locations = locations;
+  }
+
+  /**
+   * Get all registered delivery locations
+   */
+  findAll(): DeliveryLocation[] {
+    return this.locations;
+  }
+
+  /**
+   * Get a delivery location by name
+   * @returns The location, or undefined if it is not registered
+   */
+  findLocation(name: string): DeliveryLocation | undefined {
+    return this.locations.find((location) => location.name === name);
+  }
+
+  /**
+   * Get a delivery location by name
+   * @throws UnsupportedLocationException if the location is not registered
+   */
+  getLocation(name: string): DeliveryLocation {
+    const location = this.findLocation(name);
+    if (!location) {
+      this.logger.error(`Unknown location encountered: ${name}`);
+      throw new UnsupportedLocationException(`Unknown location: ${name}`);
+    }
+    return location;
+  }
+}
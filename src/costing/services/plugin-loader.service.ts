@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import { extname, join, resolve } from 'path';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CalculatorPlugin,
+  ENGINE_API_VERSION,
+  PluginContext,
+  PluginStatus,
+} from '../interfaces/calculator-plugin.interface';
+import { CostCalculator } from '../interfaces/costing.interface';
+import { BaseCalculator } from '../calculators/base-calculator';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+import { purgeModuleCache } from '../utils/module-cache.util';
+import { CostingService } from './costing.service';
+import { LocationRegistryService } from './location-registry.service';
+import { FxRateService } from './fx-rate.service';
+
+/**
+ * Loads external calculator plugins from PLUGIN_DIR. Each .js file or
+ * package directory in it is a compiled module exporting a CalculatorPlugin.
+ * A plugin that fails to load is reported and skipped.
+ */
+@Injectable()
+export class PluginLoaderService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PluginLoaderService.name);
+
+  private statuses: PluginStatus[] = [];
+
+  private pendingReload: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly costingService: CostingService,
+    private readonly rateCardRepository: RateCardRepository,
+    private readonly locationRegistry: LocationRegistryService,
+    private readonly fxRateService: FxRateService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.reload();
+  }
+
+  /**
+   * Get the outcome of the last plugin load
+   */
+  findAll(): PluginStatus[] {
+    return this.statuses;
+  }
+
+  /**
+   * Unregister every plugin calculator and load the plugin directory again,
+   * once every earlier reload has finished
+   */
+  reload(): Promise<PluginStatus[]> {
+    const result = this.pendingReload.then(() => this.loadAll());
+    this.pendingReload = result.catch(() => undefined);
+    return result;
+  }
+
+  private async loadAll(): Promise<PluginStatus[]> {
+    for (const { assetNames } of this.statuses) {
+      assetNames.forEach((assetName) =>
+        this.costingService.unregisterCalculator(assetName),
+      );
+    }
+    this.statuses = [];
+
+    const pluginDir = this.configService.get<string>('PLUGIN_DIR');
+    if (!pluginDir) {
+      return this.statuses;
+    }
+    this.logger.log(`Loading plugins from ${pluginDir}`);
+    for (const file of await this.listPluginModules(pluginDir)) {
+      this.statuses.push(this.load(file));
+    }
+    return this.statuses;
+  }
+
+  private load(file: string): PluginStatus {
+    const status: PluginStatus = { file, assetNames: [], status: 'loaded' };
+    try {
+      const plugin = this.requirePlugin(file);
+      Object.assign(status, {
+        name: plugin.name,
+        version: plugin.version,
+        engineApiVersion: plugin.engineApiVersion,
+      });
+      this.checkCompatibility(plugin);
+
+      const calculators = plugin.createCalculators(this.createContext());
+      this.registerAll(calculators);
+      status.assetNames = calculators.map((calculator) =>
+        calculator.getAssetName(),
+      );
+      this.logger.log(
+        `Loaded plugin ${plugin.name}@${plugin.version} for ${status.assetNames.join(', ')}`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to load plugin ${file}: ${message}`);
+      status.status = 'failed';
+      status.error = message;
+    }
+    return status;
+  }
+
+  /**
+   * Register a plugin's calculators, rolling back if any of them clashes
+   */
+  private registerAll(calculators: CostCalculator[]): void {
+    const registered: string[] = [];
+    try {
+      for (const calculator of calculators) {
+        this.costingService.registerCalculator(calculator);
+        registered.push(calculator.getAssetName());
+      }
+    } catch (error) {
+      registered.forEach((assetName) =>
+        this.costingService.unregisterCalculator(assetName),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Require a plugin module afresh, along with every module of a package
+   * directory, so a reload picks up rebuilt files
+   * @throws Error if the module does not export a plugin
+   */
+  private requirePlugin(file: string): CalculatorPlugin {
+    const modulePath = require.resolve(file);
+    purgeModuleCache(require.cache, modulePath, file);
+    // eslint-disable-next-line global-require, import/no-dynamic-require, @typescript-eslint/no-require-imports
+    const exported = require(modulePath) as {
+      plugin?: CalculatorPlugin;
+      default?: CalculatorPlugin;
+    };
+    const plugin = exported.plugin ?? exported.default;
+    if (
+      !plugin?.name ||
+      !plugin.version ||
+      !plugin.engineApiVersion ||
+      typeof plugin.createCalculators !== 'function'
+    ) {
+      throw new Error(
+        'Module does not export a plugin with name, version, engineApiVersion and createCalculators',
+      );
+    }
+    return plugin;
+  }
+
+  /**
+   * @throws Error if the plugin targets an engine API this engine cannot serve
+   */
+  private checkCompatibility(plugin: CalculatorPlugin): void {
+    const [engineMajor, engineMinor] =
+      ENGINE_API_VERSION.split('.').map(Number);
+    const [major, minor = 0] = plugin.engineApiVersion.split('.').map(Number);
+    if (major !== engineMajor || minor > engineMinor) {
+      throw new Error(
+        `Plugin ${plugin.name} targets engine API ${plugin.engineApiVersion}, but this engine provides ${ENGINE_API_VERSION}`,
+      );
+    }
+  }
+
+  private createContext(): PluginContext {
+    return {
+      engineApiVersion: ENGINE_API_VERSION,
+      BaseCalculator,
+      rateCardRepository: this.rateCardRepository,
+      locationRegistry: this.locationRegistry,
+      fxRateService: this.fxRateService,
+    };
+  }
+
+  /**
+   * List the .js files and package directories in the plugin directory
+   */
+  private async listPluginModules(pluginDir: string): Promise<string[]> {
+    const entries = await fs.readdir(pluginDir, { withFileTypes: true });
+    return entries
+      .filter(
+        (entry) =>
+          entry.isDirectory() ||
+          (entry.isFile() && extname(entry.name) === '.js'),
+      )
+      .map((entry) => resolve(join(pluginDir, entry.name)))
+      .sort();
+  }
+}
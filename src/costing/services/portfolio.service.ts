@@ -0,0 +1,79 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CostingService } from './costing.service';
+import { PortfolioRequestDto } from '../dto/portfolio.dto';
+import {
+  PortfolioAssetResult,
+  PortfolioResponse,
+} from '../interfaces/portfolio.interface';
+import { convertPeriodAmount } from '../utils/period.util';
+import { ENGINE_CURRENCY } from '../data/default-fx-rates';
+
+/**
+ * Prices a bundle of assets and rolls up their build and run costs
+ */
+@Injectable()
+export class PortfolioService {
+  private readonly logger = new Logger(PortfolioService.name);
+
+  constructor(private readonly costingService: CostingService) {}
+
+  /**
+   * Price every asset in the portfolio. An asset that fails is reported
+   * in place and left out of the totals.
+   */
+  async calculatePortfolioCost(
+    request: PortfolioRequestDto,
+  ): Promise<PortfolioResponse> {
+    const currency = request.currency ?? ENGINE_CURRENCY;
+    const period = request.runCostPeriod ?? 'monthly';
+    this.logger.log(
+      `Calculating portfolio cost for ${request.assets.length} asset(s) in ${currency}`,
+    );
+
+    const settled = await Promise.allSettled(
+      request.assets.map((asset) =>
+        this.costingService.calculateAssetCost({ ...asset, currency }),
+      ),
+    );
+    const assets: PortfolioAssetResult[] = settled.map((outcome, index) => {
+      const { assetName } = request.assets[index];
+      if (outcome.status === 'fulfilled') {
+        return { index, assetName, status: 'success', result: outcome.value };
+      }
+      const error =
+        outcome.reason instanceof Error
+          ? outcome.reason.message
+          : String(outcome.reason);
+      this.logger.warn(
+        `Portfolio asset ${index} (${assetName}) failed: ${error}`,
+      );
+      return { index, assetName, status: 'failed', error };
+    });
+
+    let buildTotal = 0;
+    let runTotal = 0;
+    for (const { result } of assets) {
+      if (result) {
+        buildTotal += result.buildCost.total;
+        runTotal += convertPeriodAmount(
+          result.runCost.total,
+          result.runCost.period,
+          period,
+        );
+      }
+    }
+    const failedCount = assets.filter(
+      (asset) => asset.status === 'failed',
+    ).length;
+    this.logger.log(
+      `Portfolio cost calculated. Build: ${buildTotal}, Run: ${runTotal} (${period}), Failed: ${failedCount}`,
+    );
+
+    return {
+      assets,
+      buildCost: { total: Number(buildTotal.toFixed(2)), currency },
+      runCost: { total: Number(runTotal.toFixed(2)), currency, period },
+      failedCount,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CostingService } from './costing.service';
+import { CostRequestDto } from '../dto/cost-request.dto';
+import {
+  CostingException,
+  CostingIssue,
+} from '../exceptions/costing.exception';
+import { ValidationReport } from '../interfaces/validation-report.interface';
+import { toCostingIssues } from '../pipes/costing-validation.pipe';
+
+/**
+ * Fields a calculator cannot be run without
+ */
+const REQUIRED_SHAPE = ['assetName', 'assetComponents', 'specificFields'];
+
+/**
+ * Check that a request has the structure a calculator walks: a list of
+ * components, each with a list of allocations, and a valid asOfDate if any
+ */
+function isCalculable(request: CostRequestDto): boolean {
+  const isObject = (value: unknown) =>
+    typeof value === 'object' && value !== null;
+  return (
+    Array.isArray(request.assetComponents) &&
+    request.assetComponents.every(
+      (component) =>
+        isObject(component) &&
+        Array.isArray(component.resourceModel) &&
+        component.resourceModel.every(isObject),
+    ) &&
+    (request.asOfDate === undefined ||
+      (request.asOfDate instanceof Date &&
+        !Number.isNaN(request.asOfDate.getTime())))
+  );
+}
+
+/**
+ * Runs every check on a cost request without pricing it, so all problems
+ * can be fixed in one go
+ */
+@Injectable()
+export class RequestValidationService {
+  private readonly logger = new Logger(RequestValidationService.name);
+
+  constructor(private readonly costingService: CostingService) {}
+
+  /**
+   * Check a request against the request DTO's constraints, then, when it
+   * names an asset and its components are well formed, against the asset's
+   * calculator:
+   * component and location checks, specificFields and rate data lookups
+   */
+  async validate(body: unknown): Promise<ValidationReport> {
+    const request = plainToInstance(
+      CostRequestDto,
+      typeof body === 'object' && body !== null && !Array.isArray(body)
+        ? body
+        : {},
+    );
+    const issues = toCostingIssues(await validate(request));
+
+    if (
+      isCalculable(request) &&
+      !issues.some((issue) => REQUIRED_SHAPE.includes(issue.path ?? ''))
+    ) {
+      // Leave out problems class-validator has already reported
+      const reported = new Set(issues.map((issue) => issue.path));
+      issues.push(
+        ...(await this.validateWithCalculator(request)).filter(
+          (issue) => !reported.has(issue.path),
+        ),
+      );
+    }
+
+    this.logger.log(
+      `Validated request for ${String(request.assetName)}: ${issues.length} issue(s)`,
+    );
+    return { valid: issues.length === 0, issues };
+  }
+
+  private async validateWithCalculator(
+    request: CostRequestDto,
+  ): Promise<CostingIssue[]> {
+    if (
+      !this.costingService.getAvailableAssetNames().includes(request.assetName)
+    ) {
+      return [
+        {
+          code: 'VALIDATION_FAILED',
+          message: `No calculator found for asset name: ${request.assetName}`,
+          path: 'assetName',
+        },
+      ];
+    }
+    const calculator = this.costingService.getCalculator(request.assetName);
+    if (!calculator.validate) {
+      return [];
+    }
+    try {
+      return await calculator.validate(request);
+    } catch (error) {
+      if (error instanceof CostingException) {
+        return error.issues;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CostingService } from './costing.service';
+import { CompareRequestDto } from '../dto/compare.dto';
+import { CostRequestDto } from '../dto/cost-request.dto';
+import { ComplexityLevel } from '../calculators/base-calculator';
+import { AssetCostResponse } from '../interfaces/costing.interface';
+import {
+  ComponentDelta,
+  LocationDelta,
+  ScenarioComparison,
+  ScenarioComparisonResponse,
+  ScenarioDeltas,
+  ScenarioOverride,
+  ScenarioTotals,
+} from '../interfaces/scenario.interface';
+import { convertPeriodAmount } from '../utils/period.util';
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+/**
+ * Prices named variations of a base request and reports how each one
+ * differs from the base by component and delivery location
+ */
+@Injectable()
+export class ScenarioComparisonService {
+  private readonly logger = new Logger(ScenarioComparisonService.name);
+
+  constructor(private readonly costingService: CostingService) {}
+
+  /**
+   * Compare every scenario against the base request
+   * @throws the base request's error if the base cannot be priced
+   */
+  async compare(
+    request: CompareRequestDto,
+  ): Promise<ScenarioComparisonResponse> {
+    this.logger.log(
+      `Comparing ${request.scenarios.length} scenario(s) for asset: ${request.base.assetName}`,
+    );
+    const base = await this.costingService.calculateAssetCost(request.base);
+
+    const scenarios: ScenarioComparison[] = [];
+    for (const override of request.scenarios) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const result = await this.costingService.calculateAssetCost(
+          this.applyOverride(request.base, override),
+        );
+        scenarios.push({
+          name: override.name,
+          status: 'success',
+          totals: this.getTotals(result),
+          deltas: this.getDeltas(base, result),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Scenario ${override.name} failed: ${message}`);
+        scenarios.push({
+          name: override.name,
+          status: 'failed',
+          error: message,
+        });
+      }
+    }
+
+    return {
+      assetName: base.assetName,
+      base: this.getTotals(base),
+      scenarios,
+    };
+  }
+
+  private applyOverride(
+    base: CostRequestDto,
+    override: ScenarioOverride,
+  ): CostRequestDto {
+    return {
+      ...base,
+      ...(override.complexity && {
+        complexity: override.complexity as ComplexityLevel,
+      }),
+      assetComponents: base.assetComponents.map((component) => ({
+        ...component,
+        ...(override.complexity && {
+          complexity: override.complexity as ComplexityLevel,
+        }),
+        resourceModel: override.resourceModel ?? component.resourceModel,
+      })),
+      specificFields: { ...base.specificFields, ...override.specificFields },
+    };
+  }
+
+  private getTotals(response: AssetCostResponse): ScenarioTotals {
+    return {
+      buildCost: response.buildCost.total,
+      runCost: response.runCost.total,
+      runCostPeriod: response.runCost.period,
+      currency: response.buildCost.currency,
+    };
+  }
+
+  private getDeltas(
+    base: AssetCostResponse,
+    scenario: AssetCostResponse,
+  ): ScenarioDeltas {
+    const runCost = convertPeriodAmount(
+      scenario.runCost.total,
+      scenario.runCost.period,
+      base.runCost.period,
+    );
+    return {
+      buildCost: round(scenario.buildCost.total - base.buildCost.total),
+      runCost: round(runCost - base.runCost.total),
+      components: this.getComponentDeltas(base, scenario),
+      locations: this.getLocationDeltas(base, scenario),
+    };
+  }
+
+  /**
+   * Build cost deltas for every component priced in either request
+   */
+  private getComponentDeltas(
+    base: AssetCostResponse,
+    scenario: AssetCostResponse,
+  ): ComponentDelta[] {
+    const amounts = new Map<string, { baseAmount: number; amount: number }>();
+    for (const item of base.buildCost.breakdown) {
+      amounts.set(item.costComponentName, {
+        baseAmount: item.amount,
+        amount: 0,
+      });
+    }
+    for (const item of scenario.buildCost.breakdown) {
+      const entry = amounts.get(item.costComponentName) ?? {
+        baseAmount: 0,
+        amount: 0,
+      };
+      entry.amount = item.amount;
+      amounts.set(item.costComponentName, entry);
+    }
+
+    return Array.from(amounts, ([componentName, { baseAmount, amount }]) => ({
+      componentName,
+      baseAmount: round(baseAmount),
+      amount: round(amount),
+      delta: round(amount - baseAmount),
+    }));
+  }
+
+  /**
+   * Build cost and effort deltas by delivery location, summed over components
+   */
+  private getLocationDeltas(
+    base: AssetCostResponse,
+    scenario: AssetCostResponse,
+  ): LocationDelta[] {
+    const totals = new Map<
+      string,
+      { baseAmount: number; amount: number; baseHours: number; hours: number }
+    >();
+    const add = (response: AssetCostResponse, isBase: boolean) => {
+      for (const item of response.buildCost.breakdown) {
+        for (const effort of item.effortBreakdown ?? []) {
+          const entry = totals.get(effort.deliveryLocation) ?? {
+            baseAmount: 0,
+            amount: 0,
+            baseHours: 0,
+            hours: 0,
+          };
+          if (isBase) {
+            entry.baseAmount += effort.effortAmount;
+            entry.baseHours += effort.effortHours;
+          } else {
+            entry.amount += effort.effortAmount;
+            entry.hours += effort.effortHours;
+          }
+          totals.set(effort.deliveryLocation, entry);
+        }
+      }
+    };
+    add(base, true);
+    add(scenario, false);
+
+    return Array.from(totals, ([location, entry]) => ({
+      location,
+      baseAmount: round(entry.baseAmount),
+      amount: round(entry.amount),
+      delta: round(entry.amount - entry.baseAmount),
+      baseEffortHours: round(entry.baseHours),
+      effortHours: round(entry.hours),
+      effortHoursDelta: round(entry.hours - entry.baseHours),
+    }));
+  }
+}
@@ -0,0 +1,326 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CostingService } from './costing.service';
+import {
+  AssetComponentDto,
+  CostRequestDto,
+  SupportLevel,
+} from '../dto/cost-request.dto';
+import { SensitivityRequestDto } from '../dto/sensitivity.dto';
+import { AssetCostResponse } from '../interfaces/costing.interface';
+import {
+  ImpactRange,
+  SensitivityDriver,
+  SensitivityInput,
+  SensitivityResponse,
+} from '../interfaces/sensitivity.interface';
+
+const DEFAULT_PERCENT = 10;
+
+const SUPPORT_LEVELS: SupportLevel[] = [
+  SupportLevel.BASIC,
+  SupportLevel.STANDARD,
+  SupportLevel.PREMIUM,
+];
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+/**
+ * An input moved down and up, as the requests to price
+ */
+interface Variation {
+  input: SensitivityInput;
+  target?: string;
+  lowValue: string;
+  highValue: string;
+  low: CostRequestDto;
+  high: CostRequestDto;
+}
+
+/**
+ * Moves each cost driver of a request down and up and ranks the drivers
+ * by how far they swing cost, for a tornado chart
+ */
+@Injectable()
+export class SensitivityService {
+  private readonly logger = new Logger(SensitivityService.name);
+
+  constructor(private readonly costingService: CostingService) {}
+
+  /**
+   * Price the request with each driver at its low and high value
+   * @throws the request's error if the base request cannot be priced
+   */
+  async analyse(request: SensitivityRequestDto): Promise<SensitivityResponse> {
+    const {
+      percent = DEFAULT_PERCENT,
+      rankBy = 'buildCost',
+      ...baseRequest
+    } = request;
+    this.logger.log(
+      `Analysing sensitivity of asset ${request.assetName} at ±${percent}%`,
+    );
+    const base = await this.costingService.calculateAssetCost(baseRequest);
+
+    const drivers: SensitivityDriver[] = [];
+    for (const variation of this.getVariations(baseRequest, base, percent)) {
+      // eslint-disable-next-line no-await-in-loop
+      drivers.push(await this.evaluate(variation, base));
+    }
+    const swing = (driver: SensitivityDriver, key: typeof rankBy) =>
+      driver[key]?.swing ?? -1;
+    const otherKey = rankBy === 'buildCost' ? 'runCost' : 'buildCost';
+    drivers.sort(
+      (a, b) =>
+        swing(b, rankBy) - swing(a, rankBy) ||
+        swing(b, otherKey) - swing(a, otherKey),
+    );
+
+    return {
+      assetName: base.assetName,
+      currency: base.buildCost.currency,
+      percent,
+      rankBy,
+      baseBuildCost: base.buildCost.total,
+      baseRunCost: base.runCost.total,
+      runCostPeriod: base.runCost.period,
+      drivers,
+    };
+  }
+
+  private async evaluate(
+    variation: Variation,
+    base: AssetCostResponse,
+  ): Promise<SensitivityDriver> {
+    const { low, high, ...driver } = variation;
+    try {
+      const lowResult = await this.costingService.calculateAssetCost(low);
+      const highResult = await this.costingService.calculateAssetCost(high);
+      return {
+        ...driver,
+        status: 'success',
+        buildCost: this.getImpact(
+          base.buildCost.total,
+          lowResult.buildCost.total,
+          highResult.buildCost.total,
+        ),
+        runCost: this.getImpact(
+          base.runCost.total,
+          lowResult.runCost.total,
+          highResult.runCost.total,
+        ),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Sensitivity of ${driver.input} ${driver.target ?? ''} failed: ${message}`,
+      );
+      return { ...driver, status: 'failed', error: message };
+    }
+  }
+
+  private getImpact(base: number, low: number, high: number): ImpactRange {
+    return {
+      low,
+      high,
+      lowDelta: round(low - base),
+      highDelta: round(high - base),
+      swing: round(Math.abs(high - low)),
+    };
+  }
+
+  private getVariations(
+    request: CostRequestDto,
+    base: AssetCostResponse,
+    percent: number,
+  ): Variation[] {
+    const locations = new Set<string>();
+    const effortComponents: string[] = [];
+    for (const item of base.buildCost.breakdown) {
+      if (!item.isError && item.effortBreakdown) {
+        effortComponents.push(item.costComponentName);
+        item.effortBreakdown.forEach((line) =>
+          locations.add(line.deliveryLocation),
+        );
+      }
+    }
+    const lowLabel = `-${percent}%`;
+    const highLabel = `+${percent}%`;
+
+    return [
+      ...[...locations].map((location) => ({
+        input: 'blendRate' as const,
+        target: location,
+        lowValue: lowLabel,
+        highValue: highLabel,
+        low: this.adjust(request, 'blendRates', location, -percent),
+        high: this.adjust(request, 'blendRates', location, percent),
+      })),
+      ...effortComponents.map((componentName) => ({
+        input: 'effort' as const,
+        target: componentName,
+        lowValue: lowLabel,
+        highValue: highLabel,
+        low: this.adjust(request, 'efforts', componentName, -percent),
+        high: this.adjust(request, 'efforts', componentName, percent),
+      })),
+      ...this.getAllocationVariations(request, percent),
+      ...this.getLicenseCountVariations(request, percent),
+      ...this.getSupportLevelVariations(request),
+    ];
+  }
+
+  /**
+   * Apply a percentage change on top of any adjustment the request makes
+   */
+  private adjust(
+    request: CostRequestDto,
+    key: 'blendRates' | 'efforts',
+    name: string,
+    percent: number,
+  ): CostRequestDto {
+    const current = request.adjustments?.[key]?.[name] ?? 0;
+    const combined = ((1 + current / 100) * (1 + percent / 100) - 1) * 100;
+    return {
+      ...request,
+      adjustments: {
+        ...request.adjustments,
+        [key]: { ...request.adjustments?.[key], [name]: combined },
+      },
+    };
+  }
+
+  /**
+   * Move percentage points of each multi-location component to and from
+   * its primary location, sharing them across the other locations in
+   * proportion to their allocation
+   */
+  private getAllocationVariations(
+    request: CostRequestDto,
+    percent: number,
+  ): Variation[] {
+    const variations: Variation[] = [];
+    request.assetComponents.forEach((component, index) => {
+      const low = this.shiftAllocation(component, -percent);
+      const high = this.shiftAllocation(component, percent);
+      if (low && high) {
+        const withComponent = (replacement: AssetComponentDto) => ({
+          ...request,
+          assetComponents: request.assetComponents.map((item, itemIndex) =>
+            itemIndex === index ? replacement : item,
+          ),
+        });
+        variations.push({
+          input: 'allocation',
+          target: component.name,
+          lowValue: this.describeAllocation(low),
+          highValue: this.describeAllocation(high),
+          low: withComponent(low),
+          high: withComponent(high),
+        });
+      }
+    });
+    return variations;
+  }
+
+  private shiftAllocation(
+    component: AssetComponentDto,
+    points: number,
+  ): AssetComponentDto | undefined {
+    const { resourceModel } = component;
+    if (resourceModel.length < 2) {
+      return undefined;
+    }
+    const primary = resourceModel.reduce(
+      (best, item) => (item.allocation > best.allocation ? item : best),
+      resourceModel[0],
+    );
+    const othersTotal = 100 - primary.allocation;
+    const allocation = Math.min(Math.max(primary.allocation + points, 0), 100);
+    if (othersTotal <= 0 || allocation === primary.allocation) {
+      return undefined;
+    }
+    const scale = (100 - allocation) / othersTotal;
+    return {
+      ...component,
+      resourceModel: resourceModel.map((item) => ({
+        ...item,
+        allocation:
+          item === primary
+            ? allocation
+            : Number((item.allocation * scale).toFixed(4)),
+      })),
+    };
+  }
+
+  private describeAllocation(component: AssetComponentDto): string {
+    return component.resourceModel
+      .map(({ location, allocation }) => `${location} ${allocation}%`)
+      .join(', ');
+  }
+
+  /**
+   * Move the licence count down and up by percent, at least one licence
+   * each way but never below the minimum of one licence
+   */
+  private getLicenseCountVariations(
+    request: CostRequestDto,
+    percent: number,
+  ): Variation[] {
+    const licenseCount: unknown = request.specificFields?.licenseCount;
+    if (typeof licenseCount !== 'number') {
+      return [];
+    }
+    const low = Math.max(
+      Math.min(
+        Math.round(licenseCount * (1 - percent / 100)),
+        licenseCount - 1,
+      ),
+      1,
+    );
+    const high = Math.max(
+      Math.round(licenseCount * (1 + percent / 100)),
+      licenseCount + 1,
+    );
+    const withCount = (count: number) => ({
+      ...request,
+      specificFields: { ...request.specificFields, licenseCount: count },
+    });
+    return [
+      {
+        input: 'licenseCount',
+        lowValue: String(low),
+        highValue: String(high),
+        low: withCount(low),
+        high: withCount(high),
+      },
+    ];
+  }
+
+  /**
+   * Move the support level one step down and up
+   */
+  private getSupportLevelVariations(request: CostRequestDto): Variation[] {
+    const { supportLevel } = request.commonFields;
+    if (!supportLevel) {
+      return [];
+    }
+    const index = SUPPORT_LEVELS.indexOf(supportLevel);
+    const low = SUPPORT_LEVELS[Math.max(index - 1, 0)];
+    const high = SUPPORT_LEVELS[Math.min(index + 1, SUPPORT_LEVELS.length - 1)];
+    const withLevel = (level: SupportLevel) => ({
+      ...request,
+      commonFields: { ...request.commonFields, supportLevel: level },
+    });
+    return [
+      {
+        input: 'supportLevel',
+        lowValue: low,
+        highValue: high,
+        low: withLevel(low),
+        high: withLevel(high),
+      },
+    ];
+  }
+}
@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CostingService } from './costing.service';
+import { TcoRequestDto } from '../dto/tco.dto';
+import { TcoOptions, TcoResponse } from '../interfaces/tco.interface';
+import { buildTcoSchedule } from '../utils/tco.util';
+
+const DEFAULT_DISCOUNT_RATE_PERCENT = 8;
+
+/**
+ * Projects the total cost of ownership of an asset over several years
+ */
+@Injectable()
+export class TcoService {
+  private readonly logger = new Logger(TcoService.name);
+
+  constructor(
+    private readonly costingService: CostingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Price the asset, then spread build and run cost over the horizon
+   * @throws BadRequestException if go-live falls outside the horizon
+   */
+  async calculateTco(request: TcoRequestDto): Promise<TcoResponse> {
+    const {
+      horizonYears,
+      goLiveOffsetMonths = 0,
+      annualEscalationPercent = 0,
+      discountRatePercent = this.getDefaultDiscountRate(),
+      ...costRequest
+    } = request;
+    const options: TcoOptions = {
+      horizonYears,
+      goLiveOffsetMonths,
+      annualEscalationPercent,
+      discountRatePercent,
+    };
+    if (goLiveOffsetMonths >= horizonYears * 12) {
+      throw new BadRequestException(
+        `Go-live offset of ${goLiveOffsetMonths} months falls outside the ${horizonYears}-year horizon`,
+      );
+    }
+    this.logger.log(
+      `Calculating ${horizonYears}-year TCO for asset: ${request.assetName}`,
+    );
+
+    const estimate = await this.costingService.calculateAssetCost(costRequest);
+    const schedule = buildTcoSchedule(estimate, options);
+    const sum = (pick: (year: (typeof schedule)[number]) => number) =>
+      Number(
+        schedule.reduce((total, year) => total + pick(year), 0).toFixed(2),
+      );
+
+    return {
+      assetName: estimate.assetName,
+      currency: estimate.buildCost.currency,
+      assumptions: options,
+      schedule,
+      totals: {
+        buildCost: sum((year) => year.buildCost),
+        runCost: sum((year) => year.runCost),
+        totalCost: sum((year) => year.totalCost),
+        netPresentValue: sum((year) => year.presentValue),
+      },
+      estimate,
+    };
+  }
+
+  /**
+   * Discount rate used when the request does not give one,
+   * from TCO_DISCOUNT_RATE_PERCENT
+   */
+  private getDefaultDiscountRate(): number {
+    const configured = this.configService.get<string>(
+      'TCO_DISCOUNT_RATE_PERCENT',
+    );
+    return configured === undefined
+      ? DEFAULT_DISCOUNT_RATE_PERCENT
+      : Number(configured);
+  }
+}
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import { extname, join } from 'path';
+import { parse, stringify } from 'yaml';
+
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+/**
+ * Check whether a data file should be treated as YAML based on its extension
+ */
+function isYamlFile(filePath: string): boolean {
+  return YAML_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Read and parse a JSON or YAML data file
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @throws Error if the file cannot be read or parsed
+ */
+export async function readDataFile<T>(filePath: string): Promise<T> {
+  const content = await fs.readFile(filePath, 'utf8');
+  try {
+    return (isYamlFile(filePath) ? parse(content) : JSON.parse(content)) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Unable to parse data file ${filePath}: ${message}`);
+  }
+}
+
+/**
+ * Serialize data to a JSON or YAML file, picking the format from the extension.
+ * The data is written to a temporary file that then replaces the file, so
+ * readers never see a partly written file.
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @param data - The data to write
+ */
+export async function writeDataFile<T>(
+  filePath: string,
+  data: T,
+): Promise<void> {
+  const content = isYamlFile(filePath)
+    ? stringify(data)
+    : `${JSON.stringify(data, null, 2)}\n`;
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, content, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Get the last modification time of a file in milliseconds
+ */
+export async function getFileModifiedTime(filePath: string): Promise<number> {
+  const stats = await fs.stat(filePath);
+  return stats.mtimeMs;
+}
+
+/**
+ * List the JSON and YAML data files in a directory, sorted by name
+ * @returns Full paths of the data files
+ */
+export async function listDataFiles(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  return entries
+    .filter(
+      (entry) =>
+        entry.isFile() &&
+        (isYamlFile(entry.name) ||
+          extname(entry.name).toLowerCase() === '.json'),
+    )
+    .map((entry) => join(directory, entry.name))
+    .sort();
+}
@@ -0,0 +1,440 @@
+/**
+ * A small, sandboxed expression language for pricing rules.
+ *
+ * Supports numbers, 'strings', true/false, variables with dotted member
+ * access, arithmetic (+ - * / %), comparisons (== != < <= > >=), logic
+ * (&& || !), the ternary operator and the functions listed in FUNCTIONS.
+ * Expressions are parsed into a tree and interpreted; nothing is ever passed
+ * to eval or the Function constructor.
+ */
+
+export type FormulaValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | { [key: string]: FormulaValue };
+
+export type FormulaContext = Record<string, unknown>;
+
+/**
+ * Raised when a formula cannot be parsed or evaluated
+ */
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    readonly formula: string,
+  ) {
+    super(`${message} in formula "${formula}"`);
+    this.name = FormulaError.name;
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+type Node =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'variable'; path: string[] }
+  | { kind: 'unary'; operator: string; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+const OPERATORS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '!',
+  '?',
+  ':',
+  '(',
+  ')',
+  ',',
+  '.',
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+};
+
+function isRecord(value: unknown): value is Record<string, FormulaValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: FormulaValue): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`Expected a number but got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+const FUNCTIONS: Record<string, (...args: FormulaValue[]) => FormulaValue> = {
+  min: (...args) => Math.min(...args.map(toNumber)),
+  max: (...args) => Math.max(...args.map(toNumber)),
+  abs: (value) => Math.abs(toNumber(value)),
+  ceil: (value) => Math.ceil(toNumber(value)),
+  floor: (value) => Math.floor(toNumber(value)),
+  round: (value, digits = 0) => {
+    const factor = 10 ** toNumber(digits);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  lookup: (table, key, fallback) => {
+    if (!isRecord(table)) {
+      throw new Error('lookup expects a table as its first argument');
+    }
+    const name = String(key);
+    if (Object.hasOwn(table, name)) {
+      return table[name];
+    }
+    if (fallback === undefined) {
+      throw new Error(`lookup found no entry for "${name}"`);
+    }
+    return fallback;
+  },
+};
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < formula.length) {
+    const char = formula[position];
+    if (/\s/.test(char)) {
+      position += 1;
+    } else if (/[0-9]/.test(char)) {
+      const [match] = /^[0-9]+(\.[0-9]+)?/.exec(formula.slice(position))!;
+      tokens.push({ type: 'number', value: Number(match), position });
+      position += match.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [match] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(position))!;
+      tokens.push({ type: 'identifier', value: match, position });
+      position += match.length;
+    } else if (char === "'" || char === '"') {
+      const end = formula.indexOf(char, position + 1);
+      if (end === -1) {
+        throw new FormulaError(
+          `Unterminated string at position ${position}`,
+          formula,
+        );
+      }
+      tokens.push({
+        type: 'string',
+        value: formula.slice(position + 1, end),
+        position,
+      });
+      position = end + 1;
+    } else {
+      const start = position;
+      const operator = OPERATORS.find((item) =>
+        formula.startsWith(item, start),
+      );
+      if (!operator) {
+        throw new FormulaError(
+          `Unexpected character "${char}" at position ${position}`,
+          formula,
+        );
+      }
+      tokens.push({ type: 'operator', value: operator, position });
+      position += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser producing an expression tree
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly formula: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): Node {
+    const node = this.parseConditional();
+    if (this.peek().type !== 'end') {
+      this.fail(`Unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(1);
+    if (!this.match('?')) {
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator') {
+        return left;
+      }
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index += 1;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    if (this.match('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    if (this.match('!')) {
+      return { kind: 'unary', operator: '!', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek();
+    this.index += 1;
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'operator' && token.value === '(') {
+      const node = this.parseConditional();
+      this.expect(')');
+      return node;
+    }
+    if (token.type !== 'identifier') {
+      this.index -= 1;
+      return this.fail(
+        token.type === 'end'
+          ? 'Unexpected end of formula'
+          : `Unexpected "${token.value}"`,
+      );
+    }
+
+    if (token.value === 'true' || token.value === 'false') {
+      return { kind: 'literal', value: token.value === 'true' };
+    }
+    if (this.match('(')) {
+      return { kind: 'call', name: token.value, args: this.parseArguments() };
+    }
+
+    const path = [token.value];
+    while (this.match('.')) {
+      const property = this.peek();
+      if (property.type !== 'identifier') {
+        return this.fail('Expected a property name after "."');
+      }
+      path.push(property.value);
+      this.index += 1;
+    }
+    return { kind: 'variable', path };
+  }
+
+  private parseArguments(): Node[] {
+    const args: Node[] = [];
+    if (this.match(')')) {
+      return args;
+    }
+    do {
+      args.push(this.parseConditional());
+    } while (this.match(','));
+    this.expect(')');
+    return args;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      this.fail(`Expected "${operator}"`);
+    }
+  }
+
+  private fail(message: string): never {
+    throw new FormulaError(
+      `${message} at position ${this.peek().position}`,
+      this.formula,
+    );
+  }
+}
+
+function applyBinary(
+  operator: string,
+  left: FormulaValue,
+  right: FormulaValue,
+): FormulaValue {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '+':
+      return toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+      if (toNumber(right) === 0) {
+        throw new Error('Division by zero');
+      }
+      return toNumber(left) / toNumber(right);
+    case '%':
+      return toNumber(left) % toNumber(right);
+    case '<':
+      return toNumber(left) < toNumber(right);
+    case '<=':
+      return toNumber(left) <= toNumber(right);
+    case '>':
+      return toNumber(left) > toNumber(right);
+    default:
+      return toNumber(left) >= toNumber(right);
+  }
+}
+
+function evaluateNode(node: Node, context: FormulaContext): FormulaValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      return node.path.reduce<unknown>((value, property, index) => {
+        if (!isRecord(value) || !Object.hasOwn(value, property)) {
+          throw new Error(
+            `Unknown variable: ${node.path.slice(0, index + 1).join('.')}`,
+          );
+        }
+        return value[property];
+      }, context) as FormulaValue;
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+      return node.operator === '!' ? !operand : -toNumber(operand);
+    }
+    case 'conditional':
+      return evaluateNode(node.test, context)
+        ? evaluateNode(node.consequent, context)
+        : evaluateNode(node.alternate, context);
+    case 'call': {
+      if (!Object.hasOwn(FUNCTIONS, node.name)) {
+        throw new Error(`Unknown function: ${node.name}`);
+      }
+      const args = node.args.map((arg) => evaluateNode(arg, context));
+      return FUNCTIONS[node.name](...args);
+    }
+    case 'binary': {
+      // && and || short-circuit, so the right side is evaluated lazily
+      const left = evaluateNode(node.left, context);
+      if (node.operator === '&&') {
+        return left ? evaluateNode(node.right, context) : left;
+      }
+      if (node.operator === '||') {
+        return left || evaluateNode(node.right, context);
+      }
+      return applyBinary(
+        node.operator,
+        left,
+        evaluateNode(node.right, context),
+      );
+    }
+    default:
+      throw new Error('Unsupported expression');
+  }
+}
+
+/**
+ * A parsed formula that can be evaluated against many contexts
+ */
+export interface CompiledFormula {
+  source: string;
+  evaluate(context: FormulaContext): FormulaValue;
+}
+
+/**
+ * Parse a formula once so syntax errors surface before it is evaluated
+ * @throws FormulaError if the formula is not valid
+ */
+export function compileFormula(formula: string): CompiledFormula {
+  const tree = new Parser(formula, tokenize(formula)).parse();
+  return {
+    source: formula,
+    evaluate(context: FormulaContext): FormulaValue {
+      try {
+        return evaluateNode(tree, context);
+      } catch (error) {
+        if (error instanceof FormulaError) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new FormulaError(message, formula);
+      }
+    },
+  };
+}
+
+/**
+ * Evaluate a formula that must produce a finite number
+ * @throws FormulaError if the formula is invalid or does not yield a number
+ */
+export function evaluateNumericFormula(
+  formula: string | CompiledFormula,
+  context: FormulaContext,
+): number {
+  const compiled =
+    typeof formula === 'string' ? compileFormula(formula) : formula;
+  const value = compiled.evaluate(context);
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FormulaError(
+      `Expected a number but got ${JSON.stringify(value)}`,
+      compiled.source,
+    );
+  }
+  return value;
+}
@@ -0,0 +1,152 @@
+import {
+  JsonSchemaProperty,
+  SpecificFieldsSchema,
+} from '../interfaces/json-schema.interface';
+import { SpecificFieldMetadata } from '../interfaces/asset-metadata.interface';
+import { CostingIssue } from '../exceptions/costing.exception';
+
+export const JSON_SCHEMA_DIALECT =
+  'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Find why a value does not match a property schema
+ * @returns the first problem, or undefined if the value matches
+ */
+function checkProperty(
+  value: unknown,
+  schema: JsonSchemaProperty,
+): string | undefined {
+  switch (schema.type) {
+    case 'integer':
+      if (!Number.isInteger(value)) {
+        return 'must be an integer';
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return 'must be a number';
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        return 'must be an array';
+      }
+      if (schema.items) {
+        for (const [index, item] of value.entries()) {
+          const problem = checkProperty(item, schema.items);
+          if (problem) {
+            return `item ${index} ${problem}`;
+          }
+        }
+      }
+      return undefined;
+    default: {
+      const valueType: string = typeof value;
+      if (valueType !== schema.type) {
+        return `must be a ${schema.type}`;
+      }
+    }
+  }
+  if (
+    schema.enum &&
+    !schema.enum.includes(value as string | number | boolean)
+  ) {
+    return `must be one of: ${schema.enum.join(', ')}`;
+  }
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    return `must be at least ${schema.minimum}`;
+  }
+  if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+    return `must be at most ${schema.maximum}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a specificFields object against its schema. A property's
+ * errorMessage is used as is; other messages name the asset and field.
+ * @returns one issue per missing, unexpected or invalid field
+ */
+export function validateSpecificFields(
+  assetName: string,
+  specificFields: Record<string, unknown> | undefined,
+  schema: SpecificFieldsSchema,
+): CostingIssue[] {
+  const fields = specificFields ?? {};
+  const issues: CostingIssue[] = [];
+  const fail = (name: string, message: string) =>
+    issues.push({
+      code: 'VALIDATION_FAILED',
+      message,
+      path: `specificFields.${name}`,
+    });
+  const prefix = `Invalid specificFields for ${assetName}:`;
+
+  for (const name of schema.required ?? []) {
+    if (fields[name] === undefined || fields[name] === null) {
+      fail(
+        name,
+        schema.properties[name]?.errorMessage ??
+          `${prefix} ${name} is required`,
+      );
+    }
+  }
+
+  for (const [name, value] of Object.entries(fields)) {
+    const property = schema.properties[name];
+    if (!property) {
+      if (schema.additionalProperties === false) {
+        fail(name, `${prefix} ${name} is not a known field`);
+      }
+    } else if (value !== undefined && value !== null) {
+      const problem = checkProperty(value, property);
+      if (problem) {
+        fail(name, property.errorMessage ?? `${prefix} ${name} ${problem}`);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * List the fields of a schema, marking which are required
+ */
+export function describeSpecificFields(
+  schema: SpecificFieldsSchema,
+): SpecificFieldMetadata[] {
+  const required = schema.required ?? [];
+  return Object.entries(schema.properties).map(([name, property]) => ({
+    name,
+    type: property.type,
+    required: required.includes(name),
+    ...(property.description && { description: property.description }),
+    ...(property.enum && { enum: property.enum }),
+  }));
+}
+
+/**
+ * Build a specificFields object with a valid value for every required field
+ */
+export function sampleSpecificFields(
+  schema: SpecificFieldsSchema,
+): Record<string, unknown> {
+  const typeSamples: Record<JsonSchemaProperty['type'], unknown> = {
+    number: 1,
+    integer: 1,
+    string: 'example',
+    boolean: false,
+    array: [],
+  };
+  return Object.fromEntries(
+    (schema.required ?? []).map((name) => {
+      const property = schema.properties[name];
+      return [
+        name,
+        property?.default ??
+          property?.enum?.[0] ??
+          property?.minimum ??
+          (property ? typeSamples[property.type] : null),
+      ];
+    }),
+  );
+}
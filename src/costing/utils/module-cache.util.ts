@@ -0,0 +1,25 @@
+import { sep } from 'path';
+
+/**
+ * Drop a module from the require cache, along with every module loaded from
+ * its package directory, so the next require reads them from disk again
+ * @param cache - The require cache to purge
+ * @param modulePath - Resolved path of the module
+ * @param packageDir - Directory whose modules are purged as well, if any
+ */
+export function purgeModuleCache(
+  cache: NodeJS.Dict<NodeJS.Module>,
+  modulePath: string,
+  packageDir?: string,
+): void {
+  Object.keys(cache)
+    .filter(
+      (key) =>
+        key === modulePath ||
+        (packageDir !== undefined && key.startsWith(`${packageDir}${sep}`)),
+    )
+    .forEach((key) => {
+      // eslint-disable-next-line no-param-reassign
+      delete cache[key];
+    });
+}
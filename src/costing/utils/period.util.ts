@@ -0,0 +1,18 @@
+export type CostPeriod = 'monthly' | 'yearly';
+
+const MONTHS_PER_PERIOD: Record<CostPeriod, number> = {
+  monthly: 1,
+  yearly: 12,
+};
+
+/**
+ * Convert a recurring amount from one period to another,
+ * e.g. 100 monthly is 1200 yearly
+ */
+export function convertPeriodAmount(
+  amount: number,
+  from: CostPeriod,
+  to: CostPeriod,
+): number {
+  return (amount / MONTHS_PER_PERIOD[from]) * MONTHS_PER_PERIOD[to];
+}
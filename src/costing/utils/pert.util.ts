@@ -0,0 +1,86 @@
+import {
+  ComponentEffort,
+  EffortRange,
+} from '../interfaces/rate-card.interface';
+
+/**
+ * Standard normal quantiles for the reported percentiles
+ */
+const Z_SCORES = { p50: 0, p80: 0.8416, p90: 1.2816 };
+
+export interface Distribution {
+  mean: number;
+  variance: number;
+}
+
+export interface Percentiles {
+  p50: number;
+  p80: number;
+  p90: number;
+}
+
+/**
+ * Check that a value is a three-point estimate of positive effort with
+ * optimistic <= mostLikely <= pessimistic
+ */
+export function isValidEffortRange(range: unknown): range is EffortRange {
+  if (!range || typeof range !== 'object') {
+    return false;
+  }
+  const { optimistic, mostLikely, pessimistic } = range as EffortRange;
+  return (
+    [optimistic, mostLikely, pessimistic].every(
+      (effort) => typeof effort === 'number' && Number.isFinite(effort),
+    ) &&
+    optimistic > 0 &&
+    optimistic <= mostLikely &&
+    mostLikely <= pessimistic
+  );
+}
+
+/**
+ * Find the effort ranges of a component that are not valid three-point
+ * estimates
+ * @returns one problem per invalid range, empty if all are valid
+ */
+export function findInvalidEffortRanges(component: ComponentEffort): string[] {
+  return Object.entries(component.effortRanges ?? {}).flatMap(
+    ([complexity, ranges]) =>
+      Object.entries(ranges ?? {})
+        .filter(([, range]) => !isValidEffortRange(range))
+        .map(
+          ([location]) =>
+            `component ${component.name} has an effort range for ${location} at ${complexity} complexity that is not optimistic <= mostLikely <= pessimistic`,
+        ),
+  );
+}
+
+/**
+ * Mean and variance of a three-point estimate under the PERT approximation,
+ * scaled by a cost per unit of effort
+ */
+export function pertDistribution(
+  range: EffortRange,
+  costPerUnit = 1,
+): Distribution {
+  const mean =
+    ((range.optimistic + 4 * range.mostLikely + range.pessimistic) / 6) *
+    costPerUnit;
+  const standardDeviation =
+    ((range.pessimistic - range.optimistic) / 6) * costPerUnit;
+  return { mean, variance: standardDeviation ** 2 };
+}
+
+/**
+ * Percentiles of a sum of independent estimates, approximated as normal
+ */
+export function normalPercentiles(distribution: Distribution): Percentiles {
+  const standardDeviation = Math.sqrt(distribution.variance);
+  const percentile = (z: number) =>
+    Number((distribution.mean + z * standardDeviation).toFixed(2));
+  return {
+    p50: percentile(Z_SCORES.p50),
+    p80: percentile(Z_SCORES.p80),
+    p90: percentile(Z_SCORES.p90),
+  };
+}
@@ -0,0 +1,91 @@
+import { ComplexityLevel } from '../calculators/base-calculator';
+import {
+  PricedCost,
+  PriceSummary,
+  PricingLayer,
+  PricingLayerType,
+  PricingOverrides,
+  PricingUplift,
+  RiskLevel,
+} from '../interfaces/pricing.interface';
+import { CostingValidationException } from '../exceptions/costing.exception';
+
+/**
+ * What a request says about the percentage each pricing layer applies
+ */
+export interface PricingContext {
+  complexity?: string;
+  riskLevel?: RiskLevel;
+  overrides?: PricingOverrides;
+}
+
+const OVERRIDE_KEYS: Record<PricingLayerType, keyof PricingOverrides> = {
+  contingency: 'contingencyPercent',
+  managementFee: 'managementFeePercent',
+  margin: 'marginPercent',
+};
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+/**
+ * Get the percentage a layer applies for a request. A request override
+ * wins, then the layer's risk, complexity and flat percentages.
+ */
+export function resolveLayerPercent(
+  layer: PricingLayer,
+  context: PricingContext,
+): number {
+  const riskPercent = context.riskLevel
+    ? layer.percentByRisk?.[context.riskLevel]
+    : undefined;
+  const complexityPercent = context.complexity
+    ? layer.percentByComplexity?.[context.complexity as ComplexityLevel]
+    : undefined;
+  return (
+    context.overrides?.[OVERRIDE_KEYS[layer.type]] ??
+    riskPercent ??
+    complexityPercent ??
+    layer.percent ??
+    0
+  );
+}
+
+/**
+ * Turn a cost into a sell price by applying pricing layers in order.
+ * Layers that do not apply to this cost or resolve to 0% are skipped.
+ * @throws CostingValidationException if a margin layer is 100% or more
+ */
+export function applyPricingLayers(
+  cost: number,
+  layers: PricingLayer[],
+  pricedCost: PricedCost,
+  context: PricingContext,
+): PriceSummary {
+  const uplifts: PricingUplift[] = [];
+  let subtotal = cost;
+
+  for (const layer of layers) {
+    const percent = resolveLayerPercent(layer, context);
+    if (
+      percent !== 0 &&
+      (!layer.appliesTo || layer.appliesTo.includes(pricedCost))
+    ) {
+      if (layer.type === 'margin' && percent >= 100) {
+        throw new CostingValidationException(
+          `Margin of ${percent}% in pricing layer ${layer.name} must be below 100%`,
+        );
+      }
+      const amount = round(
+        layer.type === 'margin'
+          ? (subtotal * percent) / (100 - percent)
+          : (subtotal * percent) / 100,
+      );
+      uplifts.push({ name: layer.name, type: layer.type, percent, amount });
+      subtotal += amount;
+    }
+  }
+
+  return { cost, uplifts, sellPrice: round(subtotal) };
+}
@@ -0,0 +1,53 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { RateCard } from '../interfaces/rate-card.interface';
+import { RateCardRepository } from '../repositories/rate-card.repository';
+
+/**
+ * Get the rate card an admin operation works on: the given version,
+ * or the one in effect today when no version is given
+ * @throws NotFoundException if the version does not exist
+ */
+export async function findTargetRateCard(
+  rateCardRepository: RateCardRepository,
+  version?: string,
+): Promise<RateCard> {
+  if (!version) {
+    return rateCardRepository.findRateCard();
+  }
+  const rateCard = await rateCardRepository.findRateCardByVersion(version);
+  if (!rateCard) {
+    throw new NotFoundException(`Rate card version ${version} not found`);
+  }
+  return rateCard;
+}
+
+/**
+ * Change a rate card version an admin operation names explicitly. Changing
+ * the version in effect by default would silently reprice estimates already
+ * stamped with it. The change runs on a copy of the stored version, one
+ * change at a time, and the copy is saved once update returns.
+ * @param update - Changes the rate card in place and returns the result
+ * @throws BadRequestException if no version is given
+ * @throws NotFoundException if the version does not exist
+ */
+export function updateTargetRateCard<T>(
+  rateCardRepository: RateCardRepository,
+  version: string | undefined,
+  update: (rateCard: RateCard) => T,
+): Promise<T> {
+  if (!version) {
+    return Promise.reject(
+      new BadRequestException(
+        'A rate card version is required to change rate card data',
+      ),
+    );
+  }
+  return rateCardRepository.runExclusive(async () => {
+    const rateCard = structuredClone(
+      await findTargetRateCard(rateCardRepository, version),
+    );
+    const result = update(rateCard);
+    await rateCardRepository.saveRateCard(rateCard);
+    return result;
+  });
+}
@@ -0,0 +1,80 @@
+import { CostBreakdown } from '../interfaces/costing.interface';
+import {
+  LocationStaffing,
+  StaffingOptions,
+  StaffingPlan,
+} from '../interfaces/staffing.interface';
+import { CostingValidationException } from '../exceptions/costing.exception';
+
+const WORKING_DAYS_PER_WEEK = 5;
+
+const DEFAULT_UTILISATION_PERCENT = 80;
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+/**
+ * Turn the effort hours of a build breakdown into FTE per location.
+ * One FTE works the location's hours per day, five days a week, for the
+ * delivery window, of which utilisationPercent is spent on the build.
+ * @param getWorkingHoursPerDay - Working hours per day of a location
+ * @throws CostingValidationException if the role mix does not total 100%
+ */
+export function buildStaffingPlan(
+  breakdown: CostBreakdown[],
+  options: StaffingOptions,
+  getWorkingHoursPerDay: (location: string) => number,
+): StaffingPlan {
+  const utilisationPercent =
+    options.utilisationPercent ?? DEFAULT_UTILISATION_PERCENT;
+  const roleMix = Object.entries(options.roleMix ?? {});
+  const roleMixTotal = roleMix.reduce((sum, [, percent]) => sum + percent, 0);
+  if (roleMix.length > 0 && Math.abs(roleMixTotal - 100) > 0.01) {
+    throw new CostingValidationException(
+      `Role mix should total 100% (currently ${roleMixTotal}%)`,
+    );
+  }
+
+  const hoursByLocation = new Map<string, number>();
+  for (const item of breakdown) {
+    for (const line of item.effortBreakdown ?? []) {
+      hoursByLocation.set(
+        line.deliveryLocation,
+        (hoursByLocation.get(line.deliveryLocation) ?? 0) + line.effortHours,
+      );
+    }
+  }
+
+  const locations: LocationStaffing[] = [...hoursByLocation].map(
+    ([location, effortHours]) => {
+      const hoursPerFte =
+        options.deliveryWeeks *
+        WORKING_DAYS_PER_WEEK *
+        getWorkingHoursPerDay(location) *
+        (utilisationPercent / 100);
+      const fte = effortHours / hoursPerFte;
+      return {
+        location,
+        effortHours: round(effortHours),
+        hoursPerFte: round(hoursPerFte),
+        fte: round(fte),
+        headcount: Math.ceil(round(fte)),
+        ...(roleMix.length > 0 && {
+          roles: roleMix.map(([role, percent]) => {
+            const roleFte = round((fte * percent) / 100);
+            return { role, fte: roleFte, headcount: Math.ceil(roleFte) };
+          }),
+        }),
+      };
+    },
+  );
+
+  return {
+    deliveryWeeks: options.deliveryWeeks,
+    utilisationPercent,
+    totalFte: round(locations.reduce((sum, item) => sum + item.fte, 0)),
+    totalHeadcount: locations.reduce((sum, item) => sum + item.headcount, 0),
+    locations,
+  };
+}
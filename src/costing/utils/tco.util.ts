@@ -0,0 +1,62 @@
+import { AssetCostResponse } from '../interfaces/costing.interface';
+import { TcoOptions, TcoYear } from '../interfaces/tco.interface';
+import { convertPeriodAmount } from './period.util';
+
+const MONTHS_PER_YEAR = 12;
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+/**
+ * Project an estimate over a multi-year horizon.
+ *
+ * Build cost is spread evenly over the months before go-live (all in the
+ * first month when going live immediately). Run cost accrues monthly from
+ * go-live and escalates each project year after the first. Each year is
+ * discounted at year end.
+ */
+export function buildTcoSchedule(
+  estimate: AssetCostResponse,
+  options: TcoOptions,
+): TcoYear[] {
+  const buildMonths = Math.max(options.goLiveOffsetMonths, 1);
+  const monthlyBuild = estimate.buildCost.total / buildMonths;
+  const monthlyRun = convertPeriodAmount(
+    estimate.runCost.total,
+    estimate.runCost.period,
+    'monthly',
+  );
+  const escalation = 1 + options.annualEscalationPercent / 100;
+  const discountRate = 1 + options.discountRatePercent / 100;
+
+  const schedule: TcoYear[] = [];
+  let cumulativeCost = 0;
+  for (let year = 1; year <= options.horizonYears; year += 1) {
+    let buildCost = 0;
+    let runCost = 0;
+    for (let month = 0; month < MONTHS_PER_YEAR; month += 1) {
+      const projectMonth = (year - 1) * MONTHS_PER_YEAR + month;
+      if (projectMonth < buildMonths) {
+        buildCost += monthlyBuild;
+      }
+      if (projectMonth >= options.goLiveOffsetMonths) {
+        runCost += monthlyRun * escalation ** (year - 1);
+      }
+    }
+
+    const totalCost = buildCost + runCost;
+    cumulativeCost += totalCost;
+    const discountFactor = 1 / discountRate ** year;
+    schedule.push({
+      year,
+      buildCost: round(buildCost),
+      runCost: round(runCost),
+      totalCost: round(totalCost),
+      cumulativeCost: round(cumulativeCost),
+      discountFactor: Number(discountFactor.toFixed(6)),
+      presentValue: round(totalCost * discountFactor),
+    });
+  }
+  return schedule;
+}
@@ -0,0 +1,36 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+import { isValidEffortRange } from '../utils/pert.util';
+
+/**
+ * Check that a value maps delivery locations to three-point effort estimates
+ * with optimistic <= mostLikely <= pessimistic,
+ * e.g. `{ India: { optimistic: 27, mostLikely: 32.8, pessimistic: 45 } }`
+ */
+export function IsLocationEffortRanges(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isLocationEffortRanges',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must map each location to positive optimistic, mostLikely and pessimistic effort with optimistic <= mostLikely <= pessimistic`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown): boolean {
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return false;
+          }
+          const entries = Object.entries(value);
+          return (
+            entries.length > 0 &&
+            entries.every(
+              ([location, range]) =>
+                location.length > 0 && isValidEffortRange(range),
+            )
+          );
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,37 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+/**
+ * Check that a value maps delivery locations to positive effort values,
+ * e.g. `{ India: 32.8, Australia: 31.25 }`
+ */
+export function IsLocationHours(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isLocationHours',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must map each location to a positive number of hours`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown): boolean {
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return false;
+          }
+          const entries = Object.entries(value);
+          return (
+            entries.length > 0 &&
+            entries.every(
+              ([location, hours]) =>
+                location.length > 0 &&
+                typeof hours === 'number' &&
+                Number.isFinite(hours) &&
+                hours > 0,
+            )
+          );
+        },
+      },
+    });
+  };
+}
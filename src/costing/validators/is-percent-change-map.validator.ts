@@ -0,0 +1,33 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+/**
+ * Check that a value maps names to percentage changes above -100,
+ * e.g. `{ India: 10, Australia: -5 }`
+ */
+export function IsPercentChangeMap(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isPercentChangeMap',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must map each name to a percentage change above -100`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown): boolean {
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return false;
+          }
+          return Object.entries(value).every(
+            ([name, percent]) =>
+              name.length > 0 &&
+              typeof percent === 'number' &&
+              Number.isFinite(percent) &&
+              percent > -100,
+          );
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,39 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+/**
+ * Check that a value maps roles to non-negative percentages totalling 100,
+ * e.g. `{ Developer: 60, Tester: 25, Lead: 15 }`
+ */
+export function IsRoleMix(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isRoleMix',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must map each role to a non-negative percentage, totalling 100`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown): boolean {
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return false;
+          }
+          const entries = Object.entries(value);
+          const valid = entries.every(
+            ([role, percent]) =>
+              role.trim().length > 0 &&
+              typeof percent === 'number' &&
+              Number.isFinite(percent) &&
+              percent >= 0,
+          );
+          const total = entries.reduce(
+            (sum, [, percent]) => sum + (percent as number),
+            0,
+          );
+          return valid && entries.length > 0 && Math.abs(total - 100) <= 0.01;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AllocationOptimizerService } from '../src/costing/services/allocation-optimizer.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { OptimizeRequestDto } from '../src/costing/dto/optimize.dto';
+import { CostRequestDto } from '../src/costing/dto/cost-request.dto';
+
+describe('AllocationOptimizerService', () => {
+  let costingService: CostingService;
+  let service: AllocationOptimizerService;
+
+  // Medium ignition at 100%: India 32.8 days * 9h * 15 = 4428,
+  // Australia 31.25 days * 8h * 52 = 13000
+  const request = {
+    assetName: 'ATR',
+    complexity: 'Medium',
+    components: ['ignition'],
+  } as OptimizeRequestDto;
+
+  beforeEach(() => {
+    const repository = new InMemoryRateCardRepository();
+    const locationRegistry = new LocationRegistryService(new ConfigService());
+    const fxRateService = new FxRateService(new ConfigService());
+    costingService = new CostingService();
+    costingService.registerCalculator(
+      new AtrCalculator(repository, locationRegistry, fxRateService),
+    );
+    costingService.registerCalculator(
+      new QPlusPlusCalculator(repository, locationRegistry, fxRateService),
+    );
+    service = new AllocationOptimizerService(costingService, fxRateService);
+  });
+
+  it('should place all work in the cheapest location without constraints', async () => {
+    const result = await service.optimize(request);
+
+    expect(result.assetComponents).toEqual([
+      {
+        name: 'ignition',
+        resourceModel: [{ location: 'India', allocation: 100 }],
+      },
+    ]);
+    expect(result.predictedBuildCost).toBe(4428);
+  });
+
+  it('should respect a minimum onshore share', async () => {
+    const result = await service.optimize({
+      ...request,
+      constraints: { limits: [{ locations: ['Australia'], minPercent: 20 }] },
+    } as OptimizeRequestDto);
+
+    expect(result.assetComponents[0].resourceModel).toEqual([
+      { location: 'India', allocation: 80 },
+      { location: 'Australia', allocation: 20 },
+    ]);
+    expect(result.predictedBuildCost).toBe(6142.4);
+  });
+
+  it('should predict the cost that POST /costing returns for the payload', async () => {
+    const optimized = await service.optimize({
+      assetName: 'QPlusPlus',
+      complexity: 'Large',
+      components: ['Frontend', 'Backend'],
+      constraints: {
+        allowedLocations: ['India', 'US', 'EU'],
+        limits: [{ locations: ['US', 'EU'], minPercent: 30 }],
+        stepPercent: 5,
+      },
+    } as OptimizeRequestDto);
+
+    const estimate = await costingService.calculateAssetCost({
+      assetName: 'QPlusPlus',
+      complexity: 'Large',
+      commonFields: { deploymentType: 'cloud' },
+      assetComponents: optimized.assetComponents,
+      specificFields: {},
+    } as CostRequestDto);
+
+    expect(estimate.buildCost.total).toBeCloseTo(optimized.predictedBuildCost);
+    for (const { resourceModel } of optimized.assetComponents) {
+      const onshore = resourceModel
+        .filter(({ location }) => location !== 'India')
+        .reduce((sum, { allocation }) => sum + allocation, 0);
+      expect(onshore).toBeGreaterThanOrEqual(30);
+    }
+  });
+
+  it('should reject constraints no allocation can meet', async () => {
+    await expect(
+      service.optimize({
+        ...request,
+        constraints: {
+          allowedLocations: ['India'],
+          limits: [{ locations: ['India'], maxPercent: 80 }],
+        },
+      } as OptimizeRequestDto),
+    ).rejects.toThrow(
+      'No allocation of component ignition across India meets the constraints',
+    );
+  });
+
+  it('should reject an unknown component', async () => {
+    await expect(
+      service.optimize({ ...request, components: ['reporting'] }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetCatalogAdminService } from '../src/costing/services/asset-catalog-admin.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+import { UpdateComponentEffortDto } from '../src/costing/dto/component-effort.dto';
+
+describe('AssetCatalogAdminService', () => {
+  let repository: InMemoryRateCardRepository;
+  let service: AssetCatalogAdminService;
+
+  const efforts = {
+    Medium: { Australia: 12, India: 20 },
+    Large: { Australia: 16, India: 26 },
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryRateCardRepository();
+    service = new AssetCatalogAdminService(
+      repository,
+      new LocationRegistryService(new ConfigService()),
+    );
+  });
+
+  it('should list the components of an asset', async () => {
+    const components = await service.findComponents('ATR');
+    expect(components.map((component) => component.name)).toEqual([
+      'ignition',
+      'automation configuration',
+    ]);
+  });
+
+  it('should throw NotFoundException for an unknown asset', async () => {
+    await expect(service.findComponents('UNKNOWN')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should price a newly created component immediately', async () => {
+    const calculator = new AtrCalculator(
+      repository,
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+    const request = {
+      assetName: 'ATR',
+      complexity: 'Medium',
+      commonFields: { deploymentType: 'onPremise' },
+      assetComponents: [
+        {
+          name: 'reporting',
+          resourceModel: [{ location: 'India', allocation: 100 }],
+        },
+      ],
+      specificFields: { licenseCount: 1 },
+    } as AssetCostRequest;
+
+    await service.createComponent(
+      'ATR',
+      { name: 'reporting', efforts },
+      '2025.1',
+    );
+    const result = await calculator.calculateCosts(request);
+
+    // 100% India: 20 effort days * 9 hours * 15/hour
+    expect(result.buildCost.breakdown[0].isError).toBe(false);
+    expect(result.buildCost.total).toBe(2700);
+  });
+
+  it('should create a catalog for a new asset', async () => {
+    await service.createComponent(
+      'NewAsset',
+      { name: 'setup', efforts },
+      '2025.1',
+    );
+
+    await expect(service.findComponent('NewAsset', 'setup')).resolves.toEqual({
+      name: 'setup',
+      efforts,
+    });
+  });
+
+  it('should refuse to create a duplicate component', async () => {
+    await expect(
+      service.createComponent('ATR', { name: 'ignition', efforts }, '2025.1'),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should refuse a component without effort data', async () => {
+    await expect(
+      service.createComponent('ATR', { name: 'empty', efforts: {} }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should refuse effort data for a location the registry does not know', async () => {
+    await expect(
+      service.createComponent(
+        'ATR',
+        { name: 'reporting', efforts: { Medium: { India: 20, Mars: 10 } } },
+        '2025.1',
+      ),
+    ).rejects.toThrow(
+      'Component "reporting" has effort data for unknown location(s): Mars',
+    );
+  });
+
+  it('should replace the effort hours of a component', async () => {
+    await service.updateComponent('ATR', 'ignition', { efforts }, '2025.1');
+
+    const component = await service.findComponent('ATR', 'ignition');
+    expect(component.efforts).toEqual(efforts);
+  });
+
+  it('should keep the effort ranges of a component when not given', async () => {
+    const { effortRanges } = await service.findComponent('ATR', 'ignition');
+
+    await service.updateComponent('ATR', 'ignition', { efforts }, '2025.1');
+
+    const component = await service.findComponent('ATR', 'ignition');
+    expect(component.effortRanges).toEqual(effortRanges);
+  });
+
+  it('should replace the effort ranges of a component when given', async () => {
+    const effortRanges = {
+      Medium: { India: { optimistic: 18, mostLikely: 20, pessimistic: 25 } },
+    };
+
+    await service.updateComponent(
+      'ATR',
+      'ignition',
+      { efforts, effortRanges },
+      '2025.1',
+    );
+
+    const component = await service.findComponent('ATR', 'ignition');
+    expect(component.effortRanges).toEqual(effortRanges);
+  });
+
+  it('should refuse an effort range that is not in order', async () => {
+    await expect(
+      service.updateComponent(
+        'ATR',
+        'ignition',
+        {
+          efforts,
+          effortRanges: {
+            Medium: {
+              India: { optimistic: 25, mostLikely: 20, pessimistic: 30 },
+            },
+          },
+        },
+        '2025.1',
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should require a rate card version to change a component', async () => {
+    await expect(
+      service.updateComponent('ATR', 'ignition', { efforts }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should keep every change made concurrently', async () => {
+    await Promise.all([
+      service.createComponent('ATR', { name: 'reporting', efforts }, '2025.1'),
+      service.createComponent('ATR', { name: 'auditing', efforts }, '2025.1'),
+    ]);
+
+    const components = await service.findComponents('ATR');
+    expect(components.map((component) => component.name)).toEqual(
+      expect.arrayContaining(['reporting', 'auditing']),
+    );
+  });
+
+  it('should remove a component', async () => {
+    await service.removeComponent('ATR', 'automation configuration', '2025.1');
+
+    await expect(
+      service.findComponent('ATR', 'automation configuration'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  describe('UpdateComponentEffortDto validation', () => {
+    const pipe = new ValidationPipe({ transform: true });
+    const metadata: ArgumentMetadata = {
+      type: 'body',
+      metatype: UpdateComponentEffortDto,
+    };
+
+    it('should accept ordered effort ranges', async () => {
+      await expect(
+        pipe.transform(
+          {
+            efforts,
+            effortRanges: {
+              Medium: {
+                India: { optimistic: 18, mostLikely: 20, pessimistic: 25 },
+              },
+            },
+          },
+          metadata,
+        ),
+      ).resolves.toBeInstanceOf(UpdateComponentEffortDto);
+    });
+
+    it('should reject effort ranges that are not in order', async () => {
+      await expect(
+        pipe.transform(
+          {
+            efforts,
+            effortRanges: {
+              Medium: {
+                India: { optimistic: 18, mostLikely: 30, pessimistic: 25 },
+              },
+            },
+          },
+          metadata,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
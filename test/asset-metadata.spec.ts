@@ -0,0 +1,77 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CostingService } from '../src/costing/services/costing.service';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { ScpCalculator } from '../src/costing/calculators/scp-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { CostRequestDto } from '../src/costing/dto/cost-request.dto';
+
+describe('Asset metadata', () => {
+  let service: CostingService;
+
+  beforeEach(() => {
+    const dependencies = [
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    ] as const;
+    service = new CostingService();
+    service.registerCalculator(new AtrCalculator(...dependencies));
+    service.registerCalculator(new ScpCalculator(...dependencies));
+  });
+
+  it('should describe the components and fields of an asset', async () => {
+    const metadata = await service.getAssetMetadata('ATR');
+
+    expect(metadata.components.map((component) => component.name)).toEqual([
+      'ignition',
+      'automation configuration',
+    ]);
+    expect(metadata.components[0]).toEqual({
+      name: 'ignition',
+      complexities: ['xSmall', 'Small', 'Medium', 'Large', 'xLarge'],
+      locations: ['Australia', 'India'],
+    });
+    expect(metadata.locations).toEqual(['Australia', 'India']);
+    expect(metadata.specificFields).toContainEqual(
+      expect.objectContaining({ name: 'licenseCount', required: true }),
+    );
+    expect(metadata.runCostPeriod).toBe('monthly');
+  });
+
+  it('should give a sample payload that can be priced', async () => {
+    const { samplePayload } = await service.getAssetMetadata('ATR');
+
+    const result = await service.calculateAssetCost(
+      samplePayload as CostRequestDto,
+    );
+
+    expect(result.buildCost.breakdown).toHaveLength(2);
+    expect(result.buildCost.breakdown.some((item) => item.isError)).toBe(false);
+  });
+
+  it('should list every registered asset', async () => {
+    const metadata = await service.getAllAssetMetadata();
+
+    expect(metadata.map((asset) => asset.assetName)).toEqual(['ATR', 'SCP']);
+    expect(metadata[1].components).toEqual([]);
+  });
+
+  it('should leave out an asset whose metadata cannot be built', async () => {
+    jest
+      .spyOn(service.getCalculator('ATR'), 'getMetadata')
+      .mockRejectedValueOnce(new Error('No FX table is available'));
+
+    const metadata = await service.getAllAssetMetadata();
+
+    expect(metadata.map((asset) => asset.assetName)).toEqual(['SCP']);
+  });
+
+  it('should reject an unknown asset', () => {
+    expect(() => service.getAssetMetadata('UNKNOWN')).toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { AssetSpecService } from '../src/costing/services/asset-spec.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AssetSpec } from '../src/costing/interfaces/asset-spec.interface';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+import { CostingValidationException } from '../src/costing/exceptions/costing.exception';
+
+describe('AssetSpecService', () => {
+  let costingService: CostingService;
+
+  const spec: AssetSpec = {
+    name: 'Chatbot',
+    components: [
+      { name: 'intents', efforts: { Medium: { India: 10, Australia: 5 } } },
+    ],
+    runCost: {
+      period: 'monthly',
+      items: [
+        { name: 'Hosting', amount: 300 },
+        { name: 'Seats', amount: 20, multiplyBy: 'seatCount' },
+        {
+          name: 'Premium Support',
+          amount: 1000,
+          when: { supportLevel: 'premium' },
+        },
+      ],
+    },
+    specificFields: [{ name: 'seatCount', type: 'number', required: true }],
+  };
+
+  const request = {
+    assetName: 'Chatbot',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'cloud', supportLevel: 'standard' },
+    assetComponents: [
+      {
+        name: 'intents',
+        resourceModel: [{ location: 'India', allocation: 100 }],
+      },
+    ],
+    specificFields: { seatCount: 10 },
+  } as AssetCostRequest;
+
+  const createService = (assetSpecDir?: string): AssetSpecService =>
+    new AssetSpecService(
+      new ConfigService(assetSpecDir ? { ASSET_SPEC_DIR: assetSpecDir } : {}),
+      costingService,
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+
+  beforeEach(() => {
+    costingService = new CostingService();
+  });
+
+  it('should register a calculator for every spec file in ASSET_SPEC_DIR', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'asset-specs-'));
+    await fs.writeFile(join(directory, 'chatbot.json'), JSON.stringify(spec));
+    await fs.writeFile(join(directory, 'notes.txt'), 'not a spec');
+
+    await createService(directory).onApplicationBootstrap();
+
+    expect(costingService.getAvailableAssetNames()).toEqual(['Chatbot']);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should price build and run cost from the spec', async () => {
+    const calculator = createService().register(spec);
+
+    const result = await calculator.calculateCosts(request);
+
+    // 100% India: 10 effort days * 9 hours * 15/hour
+    expect(result.buildCost.total).toBe(1350);
+    // Hosting 300 + 10 seats at 20; premium support does not apply
+    expect(result.runCost.total).toBe(500);
+    expect(
+      result.runCost.breakdown.map((item) => item.costComponentName),
+    ).toEqual(['Hosting', 'Seats']);
+  });
+
+  it('should price run-cost items from formulas and lookup tables', async () => {
+    const calculator = createService().register({
+      ...spec,
+      tables: { supportRates: { basic: 100, standard: 250, premium: 500 } },
+      runCost: {
+        period: 'monthly',
+        items: [
+          {
+            name: 'Support',
+            formula: "lookup(supportRates, supportLevel || 'standard')",
+            multiplyBy: 'seatCount',
+          },
+          {
+            name: 'Cloud Infrastructure',
+            formula: "deploymentType == 'cloud' ? 200 * seatCount : 0",
+          },
+        ],
+      },
+    });
+
+    const result = await calculator.calculateCosts(request);
+
+    // Standard support 250 * 10 seats + cloud 200 * 10 seats
+    expect(result.runCost.total).toBe(4500);
+  });
+
+  it.each([
+    [
+      'a lookup key that is absent',
+      'lookup(supportRates, supportLevel)',
+      { supportLevel: undefined },
+      {},
+      'commonFields.supportLevel',
+    ],
+    [
+      'a division by zero',
+      '100 / seatCount',
+      {},
+      { seatCount: 0 },
+      'specificFields.seatCount',
+    ],
+  ])(
+    'should reject a formula failing on %s with the field at fault',
+    async (_, formula, commonFields, specificFields, path) => {
+      const calculator = createService().register({
+        ...spec,
+        tables: { supportRates: { basic: 100, standard: 250, premium: 500 } },
+        runCost: { period: 'monthly', items: [{ name: 'Support', formula }] },
+      });
+
+      const error = (await calculator
+        .calculateCosts({
+          ...request,
+          commonFields: { ...request.commonFields, ...commonFields },
+          specificFields: { ...request.specificFields, ...specificFields },
+        })
+        .catch((caught: unknown) => caught)) as CostingValidationException;
+
+      expect(error).toBeInstanceOf(CostingValidationException);
+      expect(error.issues).toEqual([
+        expect.objectContaining({ code: 'VALIDATION_FAILED', path }),
+      ]);
+    },
+  );
+
+  it('should reject a request missing a required specific field', async () => {
+    const calculator = createService().register(spec);
+
+    await expect(
+      calculator.calculateCosts({ ...request, specificFields: {} }),
+    ).rejects.toThrow(
+      'Invalid specificFields for Chatbot: seatCount is required',
+    );
+  });
+
+  it('should reject an invalid spec', () => {
+    expect(() =>
+      createService().register({
+        ...spec,
+        runCost: {
+          period: 'monthly',
+          items: [{ name: 'Users', amount: 5, multiplyBy: 'userCount' }],
+        },
+      }),
+    ).toThrow('multiplies by userCount, which is not a declared number field');
+  });
+
+  it('should reject a spec multiplying by an optional field', () => {
+    expect(() =>
+      createService().register({
+        ...spec,
+        specificFields: [{ name: 'seatCount', type: 'number' }],
+      }),
+    ).toThrow(
+      'run-cost item Seats multiplies by seatCount, which must be a required field',
+    );
+  });
+
+  it('should reject a spec with an invalid formula', () => {
+    expect(() =>
+      createService().register({
+        ...spec,
+        runCost: {
+          period: 'monthly',
+          items: [{ name: 'Hosting', formula: 'seatCount *' }],
+        },
+      }),
+    ).toThrow('run-cost item Hosting: Unexpected end of formula');
+  });
+
+  it('should refuse to redefine an asset that already has a calculator', () => {
+    const service = createService();
+    service.register(spec);
+
+    expect(() => service.register(spec)).toThrow(
+      'redefines asset Chatbot, which already has a calculator',
+    );
+  });
+});
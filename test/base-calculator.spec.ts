@@ -1,9 +1,13 @@
+import { ConfigService } from '@nestjs/config';
 import {
   AssetCostRequest,
   CostBreakdown,
   AssetComponent,
 } from '../src/costing/interfaces/costing.interface';
 import { BaseCalculator } from '../src/costing/calculators/base-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
 
 // Create a concrete implementation of BaseCalculator for testing
 class TestCalculator extends BaseCalculator {
@@ -159,7 +163,11 @@ describe('BaseCalculator', () => {
   let calculator: TestCalculator;
 
   beforeEach(() => {
-    calculator = new TestCalculator();
+    calculator = new TestCalculator(
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
   });
 
   it('should be defined', () => {
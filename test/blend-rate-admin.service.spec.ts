@@ -0,0 +1,129 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlendRateAdminService } from '../src/costing/services/blend-rate-admin.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { UpdateBlendRateDto } from '../src/costing/dto/blend-rate.dto';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+
+describe('BlendRateAdminService', () => {
+  let repository: InMemoryRateCardRepository;
+  let service: BlendRateAdminService;
+
+  const rates = { xSmall: 30, Small: 31, Medium: 32, Large: 33, xLarge: 34 };
+
+  beforeEach(() => {
+    repository = new InMemoryRateCardRepository();
+    service = new BlendRateAdminService(
+      repository,
+      new FxRateService(new ConfigService()),
+    );
+  });
+
+  it('should list system-wide and asset-specific blend rates', async () => {
+    const blendRates = await service.findAll();
+    expect(blendRates.map((item) => item.location)).toContain('LATAM');
+
+    const atrRates = await service.findAll(undefined, 'ATR');
+    expect(atrRates).toEqual([
+      expect.objectContaining({ location: 'Australia' }),
+    ]);
+  });
+
+  it('should tell system-wide rates apart from asset overrides', async () => {
+    const systemRate = await service.findOne('Australia');
+    const atrRate = await service.findOne('Australia', 'ATR');
+
+    expect(systemRate.rates.Medium).toBe(65);
+    expect(atrRate.rates.Medium).toBe(52);
+  });
+
+  it('should create a blend rate and persist it', async () => {
+    await service.create({ location: 'Mexico', rates }, '2025.1');
+
+    const [rateCard] = await repository.findAllRateCards();
+    expect(rateCard.blendRates).toContainEqual({ location: 'Mexico', rates });
+  });
+
+  it('should refuse to create a duplicate blend rate', async () => {
+    await expect(
+      service.create({ location: 'India', rates }, '2025.1'),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should update the rates for a location', async () => {
+    await service.update('India', rates, undefined, '2025.1');
+
+    await expect(service.findOne('India')).resolves.toEqual({
+      location: 'India',
+      rates,
+    });
+  });
+
+  it('should delete the blend rate for a location', async () => {
+    await service.remove('LATAM', undefined, '2025.1');
+
+    await expect(service.findOne('LATAM')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should accept a currency the FX table can convert', async () => {
+    await service.create(
+      { location: 'Mexico', currency: 'INR', rates },
+      '2025.1',
+    );
+
+    await expect(service.findOne('Mexico')).resolves.toMatchObject({
+      currency: 'INR',
+    });
+  });
+
+  it('should refuse a currency the FX table cannot convert', async () => {
+    await expect(
+      service.create({ location: 'Mexico', currency: 'JPY', rates }, '2025.1'),
+    ).rejects.toThrow(
+      'Blend rate currency JPY cannot be used in rate card 2025.1: No FX rate for currency JPY',
+    );
+    await expect(service.findOne('Mexico')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should require a rate card version to change rates', async () => {
+    await expect(service.update('India', rates)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should throw NotFoundException for an unknown rate card version', async () => {
+    await expect(service.findAll('1999.1')).rejects.toThrow(NotFoundException);
+  });
+
+  describe('UpdateBlendRateDto validation', () => {
+    const pipe = new ValidationPipe({ transform: true });
+    const metadata: ArgumentMetadata = {
+      type: 'body',
+      metatype: UpdateBlendRateDto,
+    };
+
+    it('should require all five complexity levels', async () => {
+      await expect(
+        pipe.transform({ rates: { ...rates, xLarge: undefined } }, metadata),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require positive rates', async () => {
+      await expect(
+        pipe.transform({ rates: { ...rates, Small: 0 } }, metadata),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should accept a complete set of positive rates', async () => {
+      await expect(pipe.transform({ rates }, metadata)).resolves.toBeInstanceOf(
+        UpdateBlendRateDto,
+      );
+    });
+  });
+});
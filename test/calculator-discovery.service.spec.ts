@@ -0,0 +1,78 @@
+import { Injectable, Logger, Type } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { CostingModule } from '../src/costing/costing.module';
+import { CostingService } from '../src/costing/services/costing.service';
+import { CalculatorDiscoveryService } from '../src/costing/services/calculator-discovery.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { RateCardRepository } from '../src/costing/repositories/rate-card.repository';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { AssetCalculator } from '../src/costing/decorators/asset-calculator.decorator';
+
+@Injectable()
+@AssetCalculator('ATR')
+class AlternativeAtrCalculator extends AtrCalculator {
+  protected readonly logger = new Logger(AlternativeAtrCalculator.name);
+}
+
+@Injectable()
+@AssetCalculator('Mismatched')
+class MismatchedCalculator extends AtrCalculator {
+  protected readonly logger = new Logger(MismatchedCalculator.name);
+}
+
+describe('CalculatorDiscoveryService', () => {
+  const createModule = (...extraCalculators: Type<unknown>[]) =>
+    Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        CostingService,
+        CalculatorDiscoveryService,
+        ConfigService,
+        LocationRegistryService,
+        FxRateService,
+        {
+          provide: RateCardRepository,
+          useValue: new InMemoryRateCardRepository(),
+        },
+        AtrCalculator,
+        ...extraCalculators,
+      ],
+    }).compile();
+
+  it('should register every calculator in CostingModule at startup', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ ignoreEnvFile: true, isGlobal: true }),
+        CostingModule,
+      ],
+    }).compile();
+    await module.init();
+
+    expect(module.get(CostingService).getAvailableAssetNames().sort()).toEqual([
+      'ATR',
+      'QPlusPlus',
+      'SCP',
+    ]);
+    await module.close();
+  });
+
+  it('should fail startup when two calculators claim the same asset', async () => {
+    const module = await createModule(AlternativeAtrCalculator);
+
+    await expect(module.init()).rejects.toThrow(
+      'Duplicate calculator for asset ATR',
+    );
+  });
+
+  it('should fail startup when the decorator disagrees with the calculator', async () => {
+    const module = await createModule(MismatchedCalculator);
+
+    await expect(module.init()).rejects.toThrow(
+      "decorated with @AssetCalculator('Mismatched') but calculates ATR",
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { ConfigService } from '@nestjs/config';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+
+describe('Per-component complexity', () => {
+  const createDependencies = () =>
+    [
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    ] as const;
+
+  const atrRequest = (
+    complexity: string | undefined,
+    ignitionComplexity?: string,
+  ): AssetCostRequest =>
+    ({
+      assetName: 'ATR',
+      complexity,
+      commonFields: { deploymentType: 'onPremise' },
+      assetComponents: [
+        {
+          name: 'ignition',
+          complexity: ignitionComplexity,
+          resourceModel: [{ location: 'India', allocation: 100 }],
+        },
+      ],
+      specificFields: { licenseCount: 1 },
+    }) as AssetCostRequest;
+
+  describe('AtrCalculator', () => {
+    let calculator: AtrCalculator;
+
+    beforeEach(() => {
+      calculator = new AtrCalculator(...createDependencies());
+    });
+
+    it('should price a component at the request-level complexity by default', async () => {
+      const result = await calculator.calculateCosts(atrRequest('Medium'));
+
+      // 32.8 effort days * 9 hours * 15/hour
+      expect(result.buildCost.total).toBe(4428);
+      expect(result.buildCost.breakdown[0].complexity).toBe('Medium');
+    });
+
+    it('should price a component at its own complexity when set', async () => {
+      const result = await calculator.calculateCosts(
+        atrRequest('Medium', 'Large'),
+      );
+
+      // 42.6 effort days * 9 hours * 16/hour
+      expect(result.buildCost.total).toBe(6134.4);
+      expect(result.buildCost.breakdown[0].complexity).toBe('Large');
+    });
+
+    it('should not require a request-level complexity when every component has one', async () => {
+      const result = await calculator.calculateCosts(
+        atrRequest(undefined, 'Large'),
+      );
+
+      expect(result.buildCost.total).toBe(6134.4);
+    });
+
+    it('should require a complexity for components without one', async () => {
+      await expect(
+        calculator.calculateCosts(atrRequest(undefined)),
+      ).rejects.toThrow('Complexity is mandatory for ATR cost calculation');
+    });
+
+    it('should reject an invalid component complexity', async () => {
+      await expect(
+        calculator.calculateCosts(atrRequest('Medium', 'Huge')),
+      ).rejects.toThrow('Invalid complexity: Huge');
+    });
+  });
+
+  describe('QPlusPlusCalculator', () => {
+    it('should mix component and request-level complexities', async () => {
+      const calculator = new QPlusPlusCalculator(...createDependencies());
+
+      const result = await calculator.calculateCosts({
+        assetName: 'QPlusPlus',
+        commonFields: { deploymentType: 'cloud' },
+        assetComponents: [
+          {
+            name: 'Frontend',
+            complexity: 'Large',
+            resourceModel: [{ location: 'India', allocation: 100 }],
+          },
+          {
+            name: 'Backend',
+            resourceModel: [{ location: 'India', allocation: 100 }],
+          },
+        ],
+        specificFields: {},
+      } as AssetCostRequest);
+
+      const [frontend, backend] = result.buildCost.breakdown;
+      // Frontend: 55 days * 9 hours * 16/hour, Backend: 50 * 9 * 15 (Medium default)
+      expect(frontend).toMatchObject({ complexity: 'Large', amount: 7920 });
+      expect(backend).toMatchObject({ complexity: 'Medium', amount: 6750 });
+    });
+  });
+});
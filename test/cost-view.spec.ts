@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CostingController } from '../src/costing/costing.controller';
+import { CostingService } from '../src/costing/services/costing.service';
+import { CostRequestDto } from '../src/costing/dto/cost-request.dto';
+import {
+  AssetCostResponseDto,
+  DetailedAssetCostResponseDto,
+} from '../src/costing/dto/cost-response.dto';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { RateCardRepository } from '../src/costing/repositories/rate-card.repository';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { PortfolioService } from '../src/costing/services/portfolio.service';
+import { TcoService } from '../src/costing/services/tco.service';
+import { ScenarioComparisonService } from '../src/costing/services/scenario-comparison.service';
+import { AllocationOptimizerService } from '../src/costing/services/allocation-optimizer.service';
+import { SensitivityService } from '../src/costing/services/sensitivity.service';
+import { HolidayCalendarService } from '../src/costing/services/holiday-calendar.service';
+import { DeliveryScheduleService } from '../src/costing/services/delivery-schedule.service';
+import { RequestValidationService } from '../src/costing/services/request-validation.service';
+
+describe('Cost response views', () => {
+  let controller: CostingController;
+  let service: CostingService;
+
+  const request = {
+    assetName: 'ATR',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'onPremise' },
+    assetComponents: [
+      {
+        name: 'ignition',
+        resourceModel: [
+          { location: 'India', allocation: 90 },
+          { location: 'Australia', allocation: 10 },
+        ],
+      },
+    ],
+    specificFields: { licenseCount: 1 },
+  } as CostRequestDto;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CostingController],
+      providers: [
+        CostingService,
+        PortfolioService,
+        TcoService,
+        ScenarioComparisonService,
+        AllocationOptimizerService,
+        SensitivityService,
+        HolidayCalendarService,
+        DeliveryScheduleService,
+        RequestValidationService,
+        AtrCalculator,
+        ConfigService,
+        LocationRegistryService,
+        FxRateService,
+        {
+          provide: RateCardRepository,
+          useValue: new InMemoryRateCardRepository(),
+        },
+      ],
+    }).compile();
+
+    controller = module.get<CostingController>(CostingController);
+    service = module.get<CostingService>(CostingService);
+    service.registerCalculator(module.get<AtrCalculator>(AtrCalculator));
+  });
+
+  it('should keep repeated component names apart in the compact view', async () => {
+    const estimate = await service.calculateAssetCost(request);
+    const [ignition] = estimate.buildCost.breakdown;
+    estimate.buildCost.breakdown.push({ ...ignition, amount: 4428 });
+    jest.spyOn(service, 'calculateAssetCost').mockResolvedValue(estimate);
+
+    const result = (await controller.calculateAssetCost(
+      request,
+      {},
+    )) as AssetCostResponseDto;
+
+    expect(result.buildCost.breakdown.ignition.amount).toBe(5285.2);
+    expect(result.buildCost.breakdown['ignition (2)'].amount).toBe(4428);
+    expect(result.buildCost.breakdown.ignition).not.toHaveProperty(
+      'effortBreakdown',
+    );
+  });
+
+  it('should keep component names shared with object properties as they are', async () => {
+    const estimate = await service.calculateAssetCost(request);
+    const [ignition] = estimate.buildCost.breakdown;
+    estimate.buildCost.breakdown = [
+      { ...ignition, costComponentName: 'constructor' },
+      { ...ignition, costComponentName: 'toString' },
+    ];
+    jest.spyOn(service, 'calculateAssetCost').mockResolvedValue(estimate);
+
+    const result = (await controller.calculateAssetCost(
+      request,
+      {},
+    )) as AssetCostResponseDto;
+
+    expect(Object.keys(result.buildCost.breakdown)).toEqual([
+      'constructor',
+      'toString',
+    ]);
+  });
+
+  it('should list every item with its effort detail in the detailed view', async () => {
+    const result = (await controller.calculateAssetCost(request, {
+      view: 'detailed',
+    })) as DetailedAssetCostResponseDto;
+
+    const [ignition] = result.buildCost.breakdown;
+    expect(ignition).toMatchObject({
+      costComponentName: 'ignition',
+      amount: 5285.2,
+      isError: false,
+      effortHours: expect.closeTo(290.68),
+    });
+    expect(ignition.effortBreakdown).toEqual([
+      expect.objectContaining({
+        deliveryLocation: 'India',
+        effortAmount: 3985.2,
+      }),
+      expect.objectContaining({
+        deliveryLocation: 'Australia',
+        effortHours: 25,
+      }),
+    ]);
+    expect(result.runCost.breakdown).toContainEqual(
+      expect.objectContaining({ costComponentName: 'License Fees' }),
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CostingExceptionFilter } from '../src/costing/filters/costing-exception.filter';
+import {
+  CostingException,
+  CostingValidationException,
+  MissingRateDataException,
+  UnsupportedLocationException,
+} from '../src/costing/exceptions/costing.exception';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+import { CostingValidationPipe } from '../src/costing/pipes/costing-validation.pipe';
+import { CostRequestDto } from '../src/costing/dto/cost-request.dto';
+
+describe('Costing exceptions', () => {
+  const calculator = new AtrCalculator(
+    new InMemoryRateCardRepository(),
+    new LocationRegistryService(new ConfigService()),
+    new FxRateService(new ConfigService()),
+  );
+
+  const request = (
+    location: string,
+    specificFields: Record<string, unknown>,
+    complexity?: string,
+  ): AssetCostRequest => ({
+    assetName: 'ATR',
+    complexity,
+    commonFields: { deploymentType: 'onPremise' },
+    assetComponents: [
+      { name: 'ignition', resourceModel: [{ location, allocation: 100 }] },
+    ],
+    specificFields,
+  });
+
+  const calculate = async (costRequest: AssetCostRequest) => {
+    try {
+      await calculator.calculateCosts(costRequest);
+    } catch (error) {
+      return error as CostingException;
+    }
+    throw new Error('Expected the calculation to fail');
+  };
+
+  it('should report every problem with a request', async () => {
+    const error = await calculate(request('Atlantis', {}));
+
+    expect(error).toBeInstanceOf(CostingValidationException);
+    expect(error.issues).toEqual([
+      {
+        code: 'VALIDATION_FAILED',
+        message:
+          'Complexity is mandatory for ATR cost calculation (missing for: ignition)',
+        path: 'complexity',
+      },
+      {
+        code: 'VALIDATION_FAILED',
+        message:
+          'License count must be specified and at least 1 for ATR run cost calculation',
+        path: 'specificFields.licenseCount',
+      },
+      {
+        code: 'UNSUPPORTED_LOCATION',
+        message: 'Unknown location: Atlantis',
+        path: 'assetComponents[0].resourceModel[0].location',
+      },
+    ]);
+  });
+
+  it('should raise an unsupported location when that is the only problem', async () => {
+    const error = await calculate(
+      request('Atlantis', { licenseCount: 1 }, 'Medium'),
+    );
+
+    expect(error).toBeInstanceOf(UnsupportedLocationException);
+    expect(error.message).toBe('Unknown location: Atlantis');
+  });
+
+  it('should map costing exceptions to a status and error body', async () => {
+    const error = await calculate(request('Atlantis', {}));
+    const json = jest.fn();
+    const status = jest.fn().mockReturnValue({ json });
+    const host = {
+      switchToHttp: () => ({ getResponse: () => ({ status }) }),
+    } as unknown as ArgumentsHost;
+
+    new CostingExceptionFilter().catch(error, host);
+
+    expect(status).toHaveBeenCalledWith(400);
+    expect(json).toHaveBeenCalledWith({
+      statusCode: 400,
+      error: 'VALIDATION_FAILED',
+      message: error.message,
+      issues: error.issues,
+    });
+  });
+
+  it('should answer 422 when rate data is missing', () => {
+    const error = new MissingRateDataException(
+      'No FX table is available on 2020-01-01',
+    );
+    const json = jest.fn();
+    const status = jest.fn().mockReturnValue({ json });
+    const host = {
+      switchToHttp: () => ({ getResponse: () => ({ status }) }),
+    } as unknown as ArgumentsHost;
+
+    new CostingExceptionFilter().catch(error, host);
+
+    expect(status).toHaveBeenCalledWith(422);
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: 'RATE_DATA_MISSING',
+        issues: [
+          {
+            code: 'RATE_DATA_MISSING',
+            message: 'No FX table is available on 2020-01-01',
+          },
+        ],
+      }),
+    );
+  });
+
+  const respond = (exception: Error) => {
+    const json = jest.fn();
+    const status = jest.fn().mockReturnValue({ json });
+    const host = {
+      switchToHttp: () => ({ getResponse: () => ({ status }) }),
+    } as unknown as ArgumentsHost;
+
+    new CostingExceptionFilter().catch(exception as CostingException, host);
+
+    return { status, json };
+  };
+
+  it('should give HTTP exceptions the costing error body', () => {
+    const { status, json } = respond(
+      new NotFoundException('Asset NOPE not found'),
+    );
+
+    expect(status).toHaveBeenCalledWith(404);
+    expect(json).toHaveBeenCalledWith({
+      statusCode: 404,
+      error: 'NOT_FOUND',
+      message: 'Asset NOPE not found',
+      issues: [{ code: 'NOT_FOUND', message: 'Asset NOPE not found' }],
+    });
+  });
+
+  it('should list one issue per message of a bad request', () => {
+    const { status, json } = respond(
+      new BadRequestException(['years must be positive', 'rate is required']),
+    );
+
+    expect(status).toHaveBeenCalledWith(400);
+    expect(json).toHaveBeenCalledWith({
+      statusCode: 400,
+      error: 'VALIDATION_FAILED',
+      message: 'years must be positive, rate is required',
+      issues: [
+        { code: 'VALIDATION_FAILED', message: 'years must be positive' },
+        { code: 'VALIDATION_FAILED', message: 'rate is required' },
+      ],
+    });
+  });
+
+  it('should report invalid DTO fields with their paths', async () => {
+    const pipe = new CostingValidationPipe();
+    const error = await pipe
+      .transform(
+        {
+          assetName: 'ATR',
+          commonFields: { deploymentType: 'onPremise' },
+          assetComponents: [
+            {
+              name: 'ignition',
+              resourceModel: [{ location: 'India', allocation: 'all' }],
+            },
+          ],
+          specificFields: {},
+        },
+        { type: 'body', metatype: CostRequestDto },
+      )
+      .catch((caught: CostingException) => caught);
+
+    expect(error).toBeInstanceOf(CostingValidationException);
+    expect(error.issues).toContainEqual(
+      expect.objectContaining({
+        code: 'VALIDATION_FAILED',
+        path: 'assetComponents[0].resourceModel[0].allocation',
+      }),
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { NotFoundException } from '@nestjs/common';
 import { CostingService } from '../src/costing/services/costing.service';
 // import {} from // atrCostingExample, // Assuming these are original imports
@@ -12,6 +13,10 @@ import {
 } from '../src/costing/dto/cost-request.dto';
 import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
 import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { RateCardRepository } from '../src/costing/repositories/rate-card.repository';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
 
 describe('CostingService', () => {
   let service: CostingService;
@@ -20,7 +25,18 @@ describe('CostingService', () => {
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CostingService, AtrCalculator, QPlusPlusCalculator],
+      providers: [
+        CostingService,
+        AtrCalculator,
+        QPlusPlusCalculator,
+        ConfigService,
+        LocationRegistryService,
+        FxRateService,
+        {
+          provide: RateCardRepository,
+          useValue: new InMemoryRateCardRepository(),
+        },
+      ],
     }).compile();
 
     service = module.get<CostingService>(CostingService);
@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeliveryScheduleService } from '../src/costing/services/delivery-schedule.service';
+import { HolidayCalendarService } from '../src/costing/services/holiday-calendar.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { ScheduleRequestDto } from '../src/costing/dto/schedule.dto';
+
+describe('DeliveryScheduleService', () => {
+  let service: DeliveryScheduleService;
+
+  const india = [{ location: 'India', allocation: 100 }];
+
+  const request = (
+    startDate: string,
+    teamSizes: Record<string, number>,
+    assetComponents: unknown[],
+  ) =>
+    ({
+      assetName: 'ATR',
+      complexity: 'Medium',
+      commonFields: { deploymentType: 'onPremise' },
+      assetComponents,
+      specificFields: { licenseCount: 1 },
+      startDate: new Date(startDate),
+      teamSizes,
+    }) as ScheduleRequestDto;
+
+  beforeEach(() => {
+    const locationRegistry = new LocationRegistryService(new ConfigService());
+    const costingService = new CostingService();
+    costingService.registerCalculator(
+      new AtrCalculator(
+        new InMemoryRateCardRepository(),
+        locationRegistry,
+        new FxRateService(new ConfigService()),
+      ),
+    );
+    service = new DeliveryScheduleService(
+      costingService,
+      locationRegistry,
+      new HolidayCalendarService(new ConfigService()),
+    );
+  });
+
+  it('should schedule locations in parallel', async () => {
+    const result = await service.schedule(
+      request('2025-07-01', { India: 4, Australia: 1 }, [
+        {
+          name: 'ignition',
+          resourceModel: [
+            { location: 'India', allocation: 90 },
+            { location: 'Australia', allocation: 10 },
+          ],
+        },
+      ]),
+    );
+
+    // India: 265.68 hours at 36 a day; Australia: 25 hours at 8 a day
+    const [ignition] = result.components;
+    expect(ignition.locations).toEqual([
+      expect.objectContaining({
+        location: 'India',
+        workingDays: 7.38,
+        startDate: '2025-07-01',
+        endDate: '2025-07-10',
+      }),
+      expect.objectContaining({
+        location: 'Australia',
+        workingDays: 3.13,
+        startDate: '2025-07-01',
+        endDate: '2025-07-04',
+      }),
+    ]);
+    expect(result).toMatchObject({
+      startDate: '2025-07-01',
+      endDate: '2025-07-10',
+      calendarDays: 10,
+      monthlySpend: [
+        { month: '2025-07', amount: 5285.2, cumulativeAmount: 5285.2 },
+      ],
+    });
+  });
+
+  it('should skip weekends and holidays of the location', async () => {
+    const result = await service.schedule(
+      request('2025-08-14', { India: 15 }, [
+        { name: 'ignition', resourceModel: india },
+      ]),
+    );
+
+    // 295.2 hours at 135 a day; 15 August is a holiday in India
+    expect(result.endDate).toBe('2025-08-19');
+  });
+
+  it('should work through components in order and spread spend by month', async () => {
+    const result = await service.schedule(
+      request('2025-07-28', { India: 4 }, [
+        { name: 'ignition', resourceModel: india },
+        { name: 'automation configuration', resourceModel: india },
+      ]),
+    );
+
+    const [ignition, automation] = result.components;
+    expect(ignition).toMatchObject({
+      startDate: '2025-07-28',
+      endDate: '2025-08-07',
+    });
+    expect(automation).toMatchObject({
+      startDate: '2025-08-07',
+      endDate: '2025-08-11',
+    });
+    // Four days of ignition (144 of 295.2 hours) fall in July
+    expect(result.monthlySpend).toEqual([
+      { month: '2025-07', amount: 2160, cumulativeAmount: 2160 },
+      { month: '2025-08', amount: 3618, cumulativeAmount: 5778 },
+    ]);
+  });
+
+  it('should require a team size for every priced location', async () => {
+    await expect(
+      service.schedule(
+        request('2025-07-01', { Australia: 1 }, [
+          { name: 'ignition', resourceModel: india },
+        ]),
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should load holiday calendars from HOLIDAY_CALENDARS_FILE', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'holidays-'));
+    const filePath = join(directory, 'holidays.yaml');
+    await fs.writeFile(
+      filePath,
+      [
+        'holidayCalendars:',
+        '  - code: IN',
+        '    weekendDays: [0]',
+        '    holidays: ["2025-07-01"]',
+      ].join('\n'),
+    );
+    const calendars = new HolidayCalendarService(
+      new ConfigService({ HOLIDAY_CALENDARS_FILE: filePath }),
+    );
+
+    await calendars.onModuleInit();
+
+    expect(calendars.isWorkingDay('IN', new Date('2025-07-01'))).toBe(false);
+    expect(calendars.isWorkingDay('IN', new Date('2025-07-05'))).toBe(true);
+    expect(calendars.isWorkingDay('IN', new Date('2025-08-15'))).toBe(true);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  FormulaError,
+  compileFormula,
+  evaluateNumericFormula,
+} from '../src/costing/utils/formula.util';
+
+describe('formula.util', () => {
+  const context = {
+    licenseCount: 4,
+    supportLevel: 'premium',
+    deploymentType: 'cloud',
+    supportRates: { basic: 100, standard: 250, premium: 500 },
+    specificFields: { licenseCount: 4 },
+  };
+
+  it.each([
+    ['licenseCount * 500', 2000],
+    ['1 + 2 * 3 - 4 / 2', 5],
+    ['(1 + 2) * 3 % 5', 4],
+    ['-licenseCount + 10', 6],
+    ['lookup(supportRates, supportLevel) * licenseCount', 2000],
+    ["lookup(supportRates, 'gold', 0)", 0],
+    ["deploymentType == 'cloud' ? 200 * licenseCount : 0", 800],
+    ['licenseCount > 2 && licenseCount <= 4 ? 1 : 2', 1],
+    ['max(min(licenseCount, 3), 2) + round(2.345, 2)', 5.35],
+    ['ceil(1.2) + floor(1.8) + abs(-1)', 4],
+    ['specificFields.licenseCount * 2', 8],
+  ])('should evaluate %s', (formula, expected) => {
+    expect(evaluateNumericFormula(formula, context)).toBe(expected);
+  });
+
+  it.each([
+    ['licenseCount *', 'Unexpected end of formula at position 14'],
+    ['licenseCount $ 2', 'Unexpected character "$" at position 13'],
+    ['(1 + 2', 'Expected ")" at position 6'],
+    ["'open", 'Unterminated string at position 0'],
+  ])('should reject the invalid formula %s', (formula, message) => {
+    expect(() => compileFormula(formula)).toThrow(message);
+  });
+
+  it.each([
+    ['seatCount * 2', 'Unknown variable: seatCount'],
+    ['supportRates.constructor', 'Unknown variable: supportRates.constructor'],
+    ['eval(1)', 'Unknown function: eval'],
+    ["lookup(supportRates, 'gold')", 'lookup found no entry for "gold"'],
+    ['licenseCount / 0', 'Division by zero'],
+    ['supportLevel * 2', 'Expected a number but got "premium"'],
+    ['supportLevel', 'Expected a number but got "premium"'],
+  ])('should fail to evaluate %s', (formula, message) => {
+    expect(() => evaluateNumericFormula(formula, context)).toThrow(
+      FormulaError,
+    );
+    expect(() => evaluateNumericFormula(formula, context)).toThrow(message);
+  });
+});
@@ -0,0 +1,196 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { DEFAULT_RATE_CARD } from '../src/costing/data/default-rate-card';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+
+describe('FxRateService', () => {
+  const request = {
+    assetName: 'QPlusPlus',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'cloud' },
+    assetComponents: [
+      {
+        name: 'Frontend',
+        resourceModel: [{ location: 'India', allocation: 100 }],
+      },
+    ],
+    specificFields: {},
+  } as AssetCostRequest;
+
+  const createCalculator = (
+    repository = new InMemoryRateCardRepository(),
+  ): QPlusPlusCalculator =>
+    new QPlusPlusCalculator(
+      repository,
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+
+  it('should convert between two non-base currencies', () => {
+    const service = new FxRateService(new ConfigService());
+
+    const { rate, tableVersion } = service.getRate('AUD', 'INR');
+
+    expect(rate).toBeCloseTo(85.6 / 1.61);
+    expect(tableVersion).toBe('2025-01');
+  });
+
+  it('should throw for a currency missing from the FX table', () => {
+    const service = new FxRateService(new ConfigService());
+
+    expect(() => service.getRate('USD', 'XYZ')).toThrow(
+      'No FX rate for currency XYZ in FX table 2025-01',
+    );
+  });
+
+  it('should pick the FX table in effect on the given date', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'fx-rates-'));
+    const filePath = join(directory, 'fx-rates.yaml');
+    await fs.writeFile(
+      filePath,
+      [
+        'fxTables:',
+        '  - version: 2025-Q1',
+        '    asOfDate: 2025-01-01',
+        '    baseCurrency: USD',
+        '    rates: { AUD: 1.6 }',
+        '  - version: 2025-Q2',
+        '    asOfDate: 2025-04-01',
+        '    baseCurrency: USD',
+        '    rates: { AUD: 1.5 }',
+      ].join('\n'),
+    );
+    const service = new FxRateService(
+      new ConfigService({ FX_RATES_FILE: filePath }),
+    );
+
+    await service.onModuleInit();
+
+    expect(service.getRate('USD', 'AUD', new Date('2025-03-31')).rate).toBe(
+      1.6,
+    );
+    expect(service.getRate('USD', 'AUD', new Date('2025-04-01')).rate).toBe(
+      1.5,
+    );
+    expect(() => service.findTable(new Date('2024-12-31'))).toThrow(
+      'No FX table is available on 2024-12-31',
+    );
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should express an estimate in the requested currency', async () => {
+    const result = await createCalculator().calculateCosts({
+      ...request,
+      currency: 'AUD',
+    });
+
+    // 100% India: 45 effort days * 9 hours * 15/hour = 6075 USD
+    expect(result.buildCost.currency).toBe('AUD');
+    expect(result.buildCost.total).toBe(Number((6075 * 1.61).toFixed(2)));
+    expect(result.buildCost.breakdown[0].amount).toBe(result.buildCost.total);
+    expect(result.fxRate).toEqual({
+      fromCurrency: 'USD',
+      toCurrency: 'AUD',
+      rate: 1.61,
+      tableVersion: '2025-01',
+    });
+  });
+
+  it('should quote ATR licence prices in the requested currency', async () => {
+    const calculator = new AtrCalculator(
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+
+    const result = await calculator.calculateCosts({
+      assetName: 'ATR',
+      complexity: 'Medium',
+      currency: 'AUD',
+      commonFields: { deploymentType: 'onPremise' },
+      assetComponents: [
+        {
+          name: 'ignition',
+          resourceModel: [{ location: 'India', allocation: 100 }],
+        },
+      ],
+      specificFields: { licenseCount: 2 },
+    });
+
+    // 500 USD/month at 1.61 AUD per USD
+    expect(result.runCost.breakdown[0]).toMatchObject({
+      amount: 1610,
+      description: '2 license(s) at 805.00 AUD/month each',
+    });
+  });
+
+  it('should convert blend rates stored in a local currency', async () => {
+    const rateCard = structuredClone(DEFAULT_RATE_CARD);
+    const index = rateCard.blendRates.findIndex(
+      (blendRate) => blendRate.location === 'India',
+    );
+    rateCard.blendRates[index] = {
+      ...rateCard.blendRates[index],
+      currency: 'INR',
+      rates: {
+        xSmall: 1198,
+        Small: 1198,
+        Medium: 1284,
+        Large: 1370,
+        xLarge: 1455,
+      },
+    };
+
+    const result = await createCalculator(
+      new InMemoryRateCardRepository([rateCard]),
+    ).calculateCosts(request);
+
+    // 1284 INR/hour is 15 USD/hour at 85.6 INR per USD
+    expect(result.buildCost.currency).toBe('USD');
+    expect(result.buildCost.total).toBe(6075);
+  });
+
+  it('should only fail the locations whose blend rate cannot be converted', async () => {
+    const rateCard = structuredClone(DEFAULT_RATE_CARD);
+    const index = rateCard.blendRates.findIndex(
+      (blendRate) => blendRate.location === 'US',
+    );
+    rateCard.blendRates[index] = {
+      ...rateCard.blendRates[index],
+      currency: 'JPY',
+    };
+    const calculator = createCalculator(
+      new InMemoryRateCardRepository([rateCard]),
+    );
+
+    const result = await calculator.calculateCosts(request);
+    const metadata = await calculator.getMetadata();
+    const issues = await calculator.validate({
+      ...request,
+      assetComponents: [
+        {
+          name: 'Frontend',
+          resourceModel: [{ location: 'US', allocation: 100 }],
+        },
+      ],
+    });
+
+    expect(result.buildCost.total).toBe(6075);
+    expect(metadata.locations).toContain('India');
+    expect(metadata.locations).not.toContain('US');
+    expect(issues).toEqual([
+      {
+        code: 'RATE_DATA_MISSING',
+        message: 'Blend rate for location "US" is in JPY, which has no FX rate',
+        path: 'assetComponents[0].resourceModel[0].location',
+      },
+    ]);
+  });
+});
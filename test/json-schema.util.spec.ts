@@ -0,0 +1,127 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { validateSpecificFields } from '../src/costing/utils/json-schema.util';
+import { SpecificFieldsSchema } from '../src/costing/interfaces/json-schema.interface';
+import { CostingService } from '../src/costing/services/costing.service';
+import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+
+describe('specificFields schema', () => {
+  const schema: SpecificFieldsSchema = {
+    type: 'object',
+    properties: {
+      seatCount: { type: 'integer', minimum: 1 },
+      tier: { type: 'string', enum: ['gold', 'silver'] },
+      regions: { type: 'array', items: { type: 'string' } },
+      licenseCount: {
+        type: 'number',
+        errorMessage: 'License count is required',
+      },
+    },
+    required: ['seatCount', 'licenseCount'],
+    additionalProperties: false,
+  };
+
+  it('should accept fields matching the schema', () => {
+    expect(
+      validateSpecificFields(
+        'Chatbot',
+        { seatCount: 3, tier: 'gold', regions: ['AU'], licenseCount: 1 },
+        schema,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should list every missing, unknown and invalid field', () => {
+    expect(
+      validateSpecificFields(
+        'Chatbot',
+        { seatCount: 1.5, tier: 'bronze', regions: ['AU', 7], colour: 'red' },
+        schema,
+      ),
+    ).toEqual([
+      {
+        code: 'VALIDATION_FAILED',
+        message: 'License count is required',
+        path: 'specificFields.licenseCount',
+      },
+      {
+        code: 'VALIDATION_FAILED',
+        message:
+          'Invalid specificFields for Chatbot: seatCount must be an integer',
+        path: 'specificFields.seatCount',
+      },
+      {
+        code: 'VALIDATION_FAILED',
+        message:
+          'Invalid specificFields for Chatbot: tier must be one of: gold, silver',
+        path: 'specificFields.tier',
+      },
+      {
+        code: 'VALIDATION_FAILED',
+        message:
+          'Invalid specificFields for Chatbot: regions item 1 must be a string',
+        path: 'specificFields.regions',
+      },
+      {
+        code: 'VALIDATION_FAILED',
+        message:
+          'Invalid specificFields for Chatbot: colour is not a known field',
+        path: 'specificFields.colour',
+      },
+    ]);
+  });
+
+  it('should serve the schema of a registered asset', () => {
+    const costingService = new CostingService();
+    costingService.registerCalculator(
+      new QPlusPlusCalculator(
+        new InMemoryRateCardRepository(),
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      ),
+    );
+
+    const result = costingService.getSpecificFieldsSchema('QPlusPlus');
+
+    expect(result).toMatchObject({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'QPlusPlus specificFields',
+      type: 'object',
+    });
+    expect(result.properties.databaseSize.enum).toEqual([
+      'small',
+      'medium',
+      'large',
+    ]);
+    expect(() => costingService.getSpecificFieldsSchema('UNKNOWN')).toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should reject specificFields that break the schema before calculating', async () => {
+    const calculator = new QPlusPlusCalculator(
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+
+    await expect(
+      calculator.calculateCosts({
+        assetName: 'QPlusPlus',
+        commonFields: { deploymentType: 'cloud' },
+        assetComponents: [
+          {
+            name: 'Frontend',
+            resourceModel: [{ location: 'US', allocation: 100 }],
+          },
+        ],
+        specificFields: { databaseSize: 'huge' },
+      }),
+    ).rejects.toThrow(
+      'Invalid specificFields for QPlusPlus: databaseSize must be one of: small, medium, large',
+    );
+  });
+});
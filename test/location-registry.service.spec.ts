@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+
+describe('LocationRegistryService', () => {
+  it('should know every location the built-in rate card prices', () => {
+    const registry = new LocationRegistryService(new ConfigService());
+
+    expect(registry.findAll().map((location) => location.name)).toEqual([
+      'Australia',
+      'India',
+      'US',
+      'EU',
+      'APAC',
+      'UK',
+      'LATAM',
+    ]);
+    expect(registry.getLocation('India').workingHoursPerDay).toBe(9);
+  });
+
+  it('should throw for an unknown location', () => {
+    const registry = new LocationRegistryService(new ConfigService());
+
+    expect(() => registry.getLocation('Atlantis')).toThrow(
+      'Unknown location: Atlantis',
+    );
+  });
+
+  it('should load locations from LOCATIONS_FILE', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'locations-'));
+    const filePath = join(directory, 'locations.yaml');
+    await fs.writeFile(
+      filePath,
+      [
+        'locations:',
+        '  - name: Mexico',
+        '    displayName: Mexico',
+        '    workingHoursPerDay: 8',
+        '    currency: MXN',
+        '    holidayCalendar: MX',
+      ].join('\n'),
+    );
+    const registry = new LocationRegistryService(
+      new ConfigService({ LOCATIONS_FILE: filePath }),
+    );
+
+    await registry.onModuleInit();
+
+    expect(registry.findAll()).toHaveLength(1);
+    expect(registry.getLocation('Mexico').currency).toBe('MXN');
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should let Q++ price locations beyond Australia and India', async () => {
+    const calculator = new QPlusPlusCalculator(
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+    const request = {
+      assetName: 'QPlusPlus',
+      complexity: 'Medium',
+      commonFields: { deploymentType: 'cloud' },
+      assetComponents: [
+        {
+          name: 'Frontend',
+          resourceModel: [
+            { location: 'US', allocation: 50 },
+            { location: 'EU', allocation: 50 },
+          ],
+        },
+      ],
+      specificFields: {},
+    } as AssetCostRequest;
+
+    const result = await calculator.calculateCosts(request);
+
+    // US: 0.5 * 8h * 40 * 80 = 12800, EU: 0.5 * 8h * 42 * 75 = 12600
+    expect(result.buildCost.breakdown[0].isError).toBe(false);
+    expect(result.buildCost.total).toBe(25400);
+  });
+
+  it('should report a location with a blend rate but no effort hours', async () => {
+    const calculator = new QPlusPlusCalculator(
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+    const request = {
+      assetName: 'QPlusPlus',
+      complexity: 'Medium',
+      commonFields: { deploymentType: 'cloud' },
+      assetComponents: [
+        {
+          name: 'Frontend',
+          resourceModel: [{ location: 'UK', allocation: 100 }],
+        },
+      ],
+      specificFields: {},
+    } as AssetCostRequest;
+
+    const result = await calculator.calculateCosts(request);
+    const issues = await calculator.validate(request);
+
+    expect(result.buildCost.breakdown[0]).toMatchObject({
+      amount: 0,
+      isError: true,
+      errorMessage:
+        'Component Frontend has no effort hours for location "UK" at complexity "Medium"',
+    });
+    expect(result.buildCost.total).toBe(0);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: 'RATE_DATA_MISSING',
+        path: 'assetComponents[0].resourceModel[0].location',
+      }),
+    ]);
+  });
+});
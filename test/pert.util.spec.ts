@@ -0,0 +1,99 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  normalPercentiles,
+  pertDistribution,
+} from '../src/costing/utils/pert.util';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+
+describe('Three-point effort estimates', () => {
+  describe('pertDistribution', () => {
+    it('should weight the most likely value four times', () => {
+      const distribution = pertDistribution(
+        { optimistic: 10, mostLikely: 16, pessimistic: 28 },
+        100,
+      );
+
+      // (10 + 64 + 28) / 6 = 17 days, (28 - 10) / 6 = 3 days
+      expect(distribution.mean).toBeCloseTo(1700);
+      expect(distribution.variance).toBeCloseTo(300 ** 2);
+    });
+  });
+
+  describe('normalPercentiles', () => {
+    it('should report P50 at the mean and widen with the deviation', () => {
+      expect(normalPercentiles({ mean: 1000, variance: 100 ** 2 })).toEqual({
+        p50: 1000,
+        p80: 1084.16,
+        p90: 1128.16,
+      });
+    });
+  });
+
+  describe('AtrCalculator confidence', () => {
+    const calculator = new AtrCalculator(
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+
+    const request = (componentNames: string[]): AssetCostRequest =>
+      ({
+        assetName: 'ATR',
+        complexity: 'Medium',
+        commonFields: { deploymentType: 'onPremise' },
+        assetComponents: componentNames.map((name) => ({
+          name,
+          resourceModel: [{ location: 'India', allocation: 100 }],
+        })),
+        specificFields: { licenseCount: 1 },
+      }) as AssetCostRequest;
+
+    it('should report percentiles next to the point estimate', async () => {
+      const result = await calculator.calculateCosts(request(['ignition']));
+
+      // 135/day in India: 27, 32.8 and 45 days give a mean of 33.87 days
+      expect(result.buildCost.total).toBe(4428);
+      expect(result.buildCost.confidence).toEqual({
+        method: 'PERT',
+        mean: 4572,
+        standardDeviation: 405,
+        p50: 4572,
+        p80: 4912.85,
+        p90: 5091.05,
+      });
+    });
+
+    it('should count components without a range at their point cost', async () => {
+      const result = await calculator.calculateCosts(
+        request(['ignition', 'automation configuration']),
+      );
+
+      // automation configuration: 10 days * 9 hours * 15/hour
+      expect(result.buildCost.confidence?.mean).toBe(4572 + 1350);
+      expect(result.buildCost.confidence?.standardDeviation).toBe(405);
+    });
+
+    it('should omit confidence when no component has a range', async () => {
+      const result = await calculator.calculateCosts(
+        request(['automation configuration']),
+      );
+
+      expect(result.buildCost.confidence).toBeUndefined();
+    });
+
+    it('should convert confidence into the requested currency', async () => {
+      const result = await calculator.calculateCosts({
+        ...request(['ignition']),
+        currency: 'AUD',
+      });
+
+      expect(result.buildCost.confidence?.mean).toBe(
+        Number((4572 * result.fxRate.rate).toFixed(2)),
+      );
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { PluginLoaderService } from '../src/costing/services/plugin-loader.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+import { purgeModuleCache } from '../src/costing/utils/module-cache.util';
+
+/**
+ * Source of a compiled plugin module registering one calculator
+ */
+const pluginSource = (assetName: string, engineApiVersion = '1.0'): string => `
+exports.plugin = {
+  name: '${assetName.toLowerCase()}-plugin',
+  version: '1.0.0',
+  engineApiVersion: '${engineApiVersion}',
+  createCalculators(context) {
+    class PluginCalculator extends context.BaseCalculator {
+      constructor() {
+        super(context.rateCardRepository, context.locationRegistry, context.fxRateService);
+        this.logger = { log() {}, debug() {}, warn() {}, error() {} };
+        this.assetName = '${assetName}';
+      }
+      async calculateBuildCost() {
+        return { total: 1000, breakdown: [] };
+      }
+      async calculateRunCost() {
+        return { total: 100, breakdown: [], period: 'monthly' };
+      }
+    }
+    return [new PluginCalculator()];
+  },
+};
+`;
+
+describe('PluginLoaderService', () => {
+  let directory: string;
+  let costingService: CostingService;
+  let service: PluginLoaderService;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'plugins-'));
+    costingService = new CostingService();
+    service = new PluginLoaderService(
+      new ConfigService({ PLUGIN_DIR: directory }),
+      costingService,
+      new InMemoryRateCardRepository(),
+      new LocationRegistryService(new ConfigService()),
+      new FxRateService(new ConfigService()),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should register the calculators of a compatible plugin', async () => {
+    await fs.writeFile(join(directory, 'chatbot.js'), pluginSource('Chatbot'));
+
+    await service.onApplicationBootstrap();
+
+    expect(service.findAll()).toEqual([
+      expect.objectContaining({
+        name: 'chatbot-plugin',
+        version: '1.0.0',
+        assetNames: ['Chatbot'],
+        status: 'loaded',
+      }),
+    ]);
+    const result = await costingService
+      .getCalculator('Chatbot')
+      .calculateCosts({
+        assetName: 'Chatbot',
+        assetComponents: [
+          {
+            name: 'bot',
+            resourceModel: [{ location: 'India', allocation: 100 }],
+          },
+        ],
+      } as AssetCostRequest);
+    expect(result.buildCost.total).toBe(1000);
+  });
+
+  it('should skip a plugin that targets a newer engine API', async () => {
+    await fs.writeFile(
+      join(directory, 'future.js'),
+      pluginSource('Future', '1.5'),
+    );
+
+    await service.onApplicationBootstrap();
+
+    expect(service.findAll()[0]).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        error:
+          'Plugin future-plugin targets engine API 1.5, but this engine provides 1.0',
+      }),
+    );
+    expect(costingService.getAvailableAssetNames()).toEqual([]);
+  });
+
+  it('should skip a module that does not export a plugin', async () => {
+    await fs.writeFile(join(directory, 'empty.js'), 'exports.other = 1;');
+
+    await service.onApplicationBootstrap();
+
+    expect(service.findAll()[0].status).toBe('failed');
+  });
+
+  it('should pick up new plugins on reload', async () => {
+    await fs.writeFile(join(directory, 'chatbot.js'), pluginSource('Chatbot'));
+    await service.onApplicationBootstrap();
+
+    await fs.writeFile(join(directory, 'voice.js'), pluginSource('Voice'));
+    const statuses = await service.reload();
+
+    expect(statuses.map((status) => status.status)).toEqual([
+      'loaded',
+      'loaded',
+    ]);
+    expect(costingService.getAvailableAssetNames().sort()).toEqual([
+      'Chatbot',
+      'Voice',
+    ]);
+  });
+
+  it('should unregister plugins removed before a reload', async () => {
+    await fs.writeFile(join(directory, 'chatbot.js'), pluginSource('Chatbot'));
+    await service.onApplicationBootstrap();
+
+    await fs.rm(join(directory, 'chatbot.js'));
+    await service.reload();
+
+    expect(costingService.getAvailableAssetNames()).toEqual([]);
+  });
+
+  it('should purge every module of a plugin directory from the cache', () => {
+    const cache = {
+      [join(directory, 'chatbot', 'index.js')]: {},
+      [join(directory, 'chatbot', 'lib', 'calculator.js')]: {},
+      [join(directory, 'chatbot.js')]: {},
+      [join(directory, 'voice.js')]: {},
+    } as NodeJS.Dict<NodeJS.Module>;
+
+    purgeModuleCache(
+      cache,
+      join(directory, 'chatbot', 'index.js'),
+      join(directory, 'chatbot'),
+    );
+
+    expect(Object.keys(cache)).toEqual([
+      join(directory, 'chatbot.js'),
+      join(directory, 'voice.js'),
+    ]);
+  });
+
+  it('should run concurrent reloads one after the other', async () => {
+    await fs.writeFile(join(directory, 'chatbot.js'), pluginSource('Chatbot'));
+
+    const [first, second] = await Promise.all([
+      service.reload(),
+      service.reload(),
+    ]);
+
+    expect(first.map((status) => status.status)).toEqual(['loaded']);
+    expect(second.map((status) => status.status)).toEqual(['loaded']);
+    expect(costingService.getAvailableAssetNames()).toEqual(['Chatbot']);
+  });
+});
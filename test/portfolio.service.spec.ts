@@ -0,0 +1,121 @@
+import { ConfigService } from '@nestjs/config';
+import { PortfolioService } from '../src/costing/services/portfolio.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { ScpCalculator } from '../src/costing/calculators/scp-calculator';
+import { CostRequestDto } from '../src/costing/dto/cost-request.dto';
+import { PortfolioRequestDto } from '../src/costing/dto/portfolio.dto';
+import { convertPeriodAmount } from '../src/costing/utils/period.util';
+
+describe('PortfolioService', () => {
+  let service: PortfolioService;
+
+  const atrRequest = {
+    assetName: 'ATR',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'onPremise', supportLevel: 'basic' },
+    assetComponents: [
+      {
+        name: 'ignition',
+        resourceModel: [{ location: 'India', allocation: 100 }],
+      },
+    ],
+    specificFields: { licenseCount: 1 },
+  } as CostRequestDto;
+
+  const scpRequest = {
+    assetName: 'SCP',
+    commonFields: { deploymentType: 'cloud' },
+    assetComponents: [
+      {
+        name: 'setup',
+        resourceModel: [{ location: 'India', allocation: 100 }],
+      },
+    ],
+    specificFields: {},
+  } as CostRequestDto;
+
+  beforeEach(() => {
+    const repository = new InMemoryRateCardRepository();
+    const locationRegistry = new LocationRegistryService(new ConfigService());
+    const fxRateService = new FxRateService(new ConfigService());
+    const costingService = new CostingService();
+    costingService.registerCalculator(
+      new AtrCalculator(repository, locationRegistry, fxRateService),
+    );
+    costingService.registerCalculator(
+      new ScpCalculator(repository, locationRegistry, fxRateService),
+    );
+    service = new PortfolioService(costingService);
+  });
+
+  it('should roll up build and run costs across assets', async () => {
+    const result = await service.calculatePortfolioCost({
+      assets: [atrRequest, scpRequest],
+    } as PortfolioRequestDto);
+
+    const [atr, scp] = result.assets.map((asset) => asset.result!);
+    expect(result.failedCount).toBe(0);
+    expect(result.buildCost.total).toBeCloseTo(
+      atr.buildCost.total + scp.buildCost.total,
+    );
+    // ATR: 500 licence + 100 basic support; SCP: 500 maintenance
+    expect(result.runCost).toEqual({
+      total: 1100,
+      currency: 'USD',
+      period: 'monthly',
+    });
+  });
+
+  it('should normalise run costs to the requested period', async () => {
+    const result = await service.calculatePortfolioCost({
+      assets: [atrRequest, scpRequest],
+      runCostPeriod: 'yearly',
+    } as PortfolioRequestDto);
+
+    expect(result.runCost.total).toBe(13200);
+    expect(result.runCost.period).toBe('yearly');
+  });
+
+  it('should report a failing asset in place without aborting the others', async () => {
+    const result = await service.calculatePortfolioCost({
+      assets: [atrRequest, { ...scpRequest, assetName: 'Unknown' }, scpRequest],
+    } as PortfolioRequestDto);
+
+    expect(result.assets.map((asset) => asset.status)).toEqual([
+      'success',
+      'failed',
+      'success',
+    ]);
+    expect(result.assets[1]).toEqual({
+      index: 1,
+      assetName: 'Unknown',
+      status: 'failed',
+      error: 'No calculator found for asset name: Unknown',
+    });
+    expect(result.failedCount).toBe(1);
+    expect(result.runCost.total).toBe(1100);
+  });
+
+  it('should price every asset in the portfolio currency', async () => {
+    const result = await service.calculatePortfolioCost({
+      assets: [{ ...scpRequest, currency: 'EUR' }],
+      currency: 'AUD',
+    } as PortfolioRequestDto);
+
+    expect(result.assets[0].result!.runCost.currency).toBe('AUD');
+    expect(result.runCost).toEqual({
+      total: 805,
+      currency: 'AUD',
+      period: 'monthly',
+    });
+  });
+
+  it('should convert between monthly and yearly amounts', () => {
+    expect(convertPeriodAmount(100, 'monthly', 'yearly')).toBe(1200);
+    expect(convertPeriodAmount(1200, 'yearly', 'monthly')).toBe(100);
+  });
+});
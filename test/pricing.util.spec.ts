@@ -0,0 +1,225 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  applyPricingLayers,
+  resolveLayerPercent,
+} from '../src/costing/utils/pricing.util';
+import { PricingLayer } from '../src/costing/interfaces/pricing.interface';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { QPlusPlusCalculator } from '../src/costing/calculators/q-plus-plus-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { DEFAULT_RATE_CARD } from '../src/costing/data/default-rate-card';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+
+describe('Pricing layers', () => {
+  const contingency: PricingLayer = {
+    type: 'contingency',
+    name: 'Contingency',
+    percent: 5,
+    percentByComplexity: { Large: 15 },
+    percentByRisk: { high: 20 },
+    appliesTo: ['build'],
+  };
+  const managementFee: PricingLayer = {
+    type: 'managementFee',
+    name: 'Management fee',
+    percent: 0,
+  };
+  const margin: PricingLayer = {
+    type: 'margin',
+    name: 'Delivery margin',
+    percent: 20,
+  };
+
+  describe('resolveLayerPercent', () => {
+    it('should prefer request overrides, then risk, then complexity', () => {
+      expect(resolveLayerPercent(contingency, {})).toBe(5);
+      expect(resolveLayerPercent(contingency, { complexity: 'Large' })).toBe(
+        15,
+      );
+      expect(
+        resolveLayerPercent(contingency, {
+          complexity: 'Large',
+          riskLevel: 'high',
+        }),
+      ).toBe(20);
+      expect(
+        resolveLayerPercent(contingency, {
+          riskLevel: 'high',
+          overrides: { contingencyPercent: 2 },
+        }),
+      ).toBe(2);
+    });
+  });
+
+  describe('applyPricingLayers', () => {
+    it('should apply each layer to the running subtotal', () => {
+      const summary = applyPricingLayers(
+        1000,
+        [contingency, managementFee, margin],
+        'build',
+        { overrides: { managementFeePercent: 10 } },
+      );
+
+      // 1000 + 5% = 1050, + 10% = 1155, then a 20% margin on price: 1155 / 0.8
+      expect(summary).toEqual({
+        cost: 1000,
+        uplifts: [
+          { name: 'Contingency', type: 'contingency', percent: 5, amount: 50 },
+          {
+            name: 'Management fee',
+            type: 'managementFee',
+            percent: 10,
+            amount: 105,
+          },
+          {
+            name: 'Delivery margin',
+            type: 'margin',
+            percent: 20,
+            amount: 288.75,
+          },
+        ],
+        sellPrice: 1443.75,
+      });
+    });
+
+    it('should skip layers at 0% and layers for the other cost', () => {
+      const summary = applyPricingLayers(
+        1000,
+        [contingency, managementFee, margin],
+        'run',
+        {},
+      );
+
+      expect(summary.uplifts.map((uplift) => uplift.type)).toEqual(['margin']);
+      expect(summary.sellPrice).toBe(1250);
+    });
+
+    it('should return the cost as the sell price without layers', () => {
+      expect(applyPricingLayers(1000, [], 'build', {})).toEqual({
+        cost: 1000,
+        uplifts: [],
+        sellPrice: 1000,
+      });
+    });
+
+    it('should reject a margin of 100% or more', () => {
+      expect(() =>
+        applyPricingLayers(1000, [margin], 'build', {
+          overrides: { marginPercent: 100 },
+        }),
+      ).toThrow('must be below 100%');
+    });
+  });
+
+  describe('AtrCalculator pricing', () => {
+    const request = {
+      assetName: 'ATR',
+      complexity: 'Medium',
+      commonFields: { deploymentType: 'onPremise' },
+      assetComponents: [
+        {
+          name: 'ignition',
+          resourceModel: [{ location: 'India', allocation: 100 }],
+        },
+      ],
+      specificFields: { licenseCount: 1 },
+    } as AssetCostRequest;
+
+    const createCalculator = (repository: InMemoryRateCardRepository) =>
+      new AtrCalculator(
+        repository,
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      );
+
+    it('should price with the system-wide policy of the rate card', async () => {
+      const calculator = createCalculator(new InMemoryRateCardRepository());
+
+      const result = await calculator.calculateCosts(request);
+
+      // 4428 + 10% Medium contingency = 4870.8, / 0.8 for a 20% margin
+      expect(result.pricing.build.cost).toBe(4428);
+      expect(result.pricing.build.sellPrice).toBe(6088.5);
+      expect(result.pricing.run.uplifts).toEqual([
+        expect.objectContaining({ type: 'margin' }),
+      ]);
+    });
+
+    it('should take contingency from per-component complexities', async () => {
+      const calculator = createCalculator(new InMemoryRateCardRepository());
+
+      const result = await calculator.calculateCosts({
+        ...request,
+        complexity: undefined,
+        assetComponents: [
+          { ...request.assetComponents[0], complexity: 'Large' },
+        ],
+      });
+
+      // 6134.4 at Large complexity, + 15% Large contingency
+      expect(result.pricing.build.uplifts[0]).toEqual({
+        name: 'Contingency',
+        type: 'contingency',
+        percent: 15,
+        amount: 920.16,
+      });
+    });
+
+    it('should use a policy scoped to the asset over the system-wide one', async () => {
+      const calculator = createCalculator(
+        new InMemoryRateCardRepository([
+          {
+            ...DEFAULT_RATE_CARD,
+            pricingPolicies: [
+              ...(DEFAULT_RATE_CARD.pricingPolicies ?? []),
+              { assetName: 'ATR', layers: [managementFee] },
+            ],
+          },
+        ]),
+      );
+
+      const result = await calculator.calculateCosts({
+        ...request,
+        pricing: { managementFeePercent: 10 },
+      });
+
+      expect(result.pricing.build.uplifts).toEqual([
+        {
+          name: 'Management fee',
+          type: 'managementFee',
+          percent: 10,
+          amount: 442.8,
+        },
+      ]);
+      expect(result.pricing.build.sellPrice).toBe(4870.8);
+    });
+  });
+
+  describe('QPlusPlusCalculator pricing', () => {
+    it('should take contingency from the implicit Medium complexity', async () => {
+      const calculator = new QPlusPlusCalculator(
+        new InMemoryRateCardRepository(),
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      );
+
+      const result = await calculator.calculateCosts({
+        assetName: 'QPlusPlus',
+        commonFields: { deploymentType: 'cloud' },
+        assetComponents: [
+          {
+            name: 'Frontend',
+            resourceModel: [{ location: 'US', allocation: 100 }],
+          },
+        ],
+        specificFields: {},
+      });
+
+      expect(result.pricing.build.uplifts[0]).toEqual(
+        expect.objectContaining({ type: 'contingency', percent: 10 }),
+      );
+    });
+  });
+});
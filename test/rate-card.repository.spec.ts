@@ -0,0 +1,292 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { BlendRateAdminService } from '../src/costing/services/blend-rate-admin.service';
+import { FileRateCardRepository } from '../src/costing/repositories/file-rate-card.repository';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { DEFAULT_RATE_CARD } from '../src/costing/data/default-rate-card';
+import { RateCard } from '../src/costing/interfaces/rate-card.interface';
+
+describe('RateCardRepository', () => {
+  const rateCard: RateCard = {
+    version: '2024.1',
+    effectiveFrom: '2024-01-01',
+    effectiveTo: '2024-12-31',
+    blendRates: [
+      {
+        location: 'India',
+        rates: { xSmall: 10, Small: 11, Medium: 12, Large: 13, xLarge: 14 },
+      },
+    ],
+    assets: [
+      {
+        name: 'ATR',
+        components: [{ name: 'ignition', efforts: { Medium: { India: 30 } } }],
+      },
+    ],
+  };
+
+  const nextRateCard: RateCard = {
+    ...rateCard,
+    version: '2025.1',
+    effectiveFrom: '2025-01-01',
+    effectiveTo: undefined,
+  };
+
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'rate-card-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('InMemoryRateCardRepository', () => {
+    it('should default to the built-in rate card', async () => {
+      const repository = new InMemoryRateCardRepository();
+      await expect(repository.findRateCard()).resolves.toEqual(
+        DEFAULT_RATE_CARD,
+      );
+    });
+
+    it('should not share state with the seed data', async () => {
+      const repository = new InMemoryRateCardRepository([rateCard]);
+      const [actualRateCard] = await repository.findAllRateCards();
+      actualRateCard.blendRates.pop();
+
+      expect(rateCard.blendRates).toHaveLength(1);
+    });
+  });
+
+  describe('findRateCard', () => {
+    const repository = new InMemoryRateCardRepository([rateCard, nextRateCard]);
+
+    it('should pick the rate card effective on the given date', async () => {
+      const actualRateCard = await repository.findRateCard(
+        new Date('2024-06-30'),
+      );
+      expect(actualRateCard.version).toBe('2024.1');
+    });
+
+    it('should treat effectiveTo as inclusive', async () => {
+      const actualRateCard = await repository.findRateCard(
+        new Date('2024-12-31T23:00:00Z'),
+      );
+      expect(actualRateCard.version).toBe('2024.1');
+    });
+
+    it('should use the open-ended rate card for later dates', async () => {
+      const actualRateCard = await repository.findRateCard(
+        new Date('2031-01-01'),
+      );
+      expect(actualRateCard.version).toBe('2025.1');
+    });
+
+    it('should prefer the most recently started overlapping version', async () => {
+      const overlapping = new InMemoryRateCardRepository([
+        nextRateCard,
+        { ...nextRateCard, version: '2025.2', effectiveFrom: '2025-07-01' },
+      ]);
+      const actualRateCard = await overlapping.findRateCard(
+        new Date('2025-08-01'),
+      );
+      expect(actualRateCard.version).toBe('2025.2');
+    });
+
+    it('should throw when no rate card is effective', async () => {
+      await expect(
+        repository.findRateCard(new Date('2023-01-01')),
+      ).rejects.toThrow('No rate card is effective on 2023-01-01');
+    });
+  });
+
+  describe('FileRateCardRepository', () => {
+    it('should load a JSON rate card file', async () => {
+      const filePath = join(directory, 'rate-cards.json');
+      await fs.writeFile(filePath, JSON.stringify({ rateCards: [rateCard] }));
+
+      const repository = new FileRateCardRepository(filePath);
+
+      await expect(repository.findAllRateCards()).resolves.toEqual([rateCard]);
+    });
+
+    it('should load a YAML rate card file', async () => {
+      const filePath = join(directory, 'rate-cards.yaml');
+      await fs.writeFile(
+        filePath,
+        [
+          'rateCards:',
+          '  - version: 2024.1',
+          '    effectiveFrom: 2024-01-01',
+          '    effectiveTo: 2024-12-31',
+          '    blendRates:',
+          '      - location: India',
+          '        rates: { xSmall: 10, Small: 11, Medium: 12, Large: 13, xLarge: 14 }',
+          '    assets:',
+          '      - name: ATR',
+          '        components:',
+          '          - name: ignition',
+          '            efforts:',
+          '              Medium: { India: 30 }',
+        ].join('\n'),
+      );
+
+      const repository = new FileRateCardRepository(filePath);
+
+      await expect(repository.findAllRateCards()).resolves.toEqual([rateCard]);
+    });
+
+    it('should reload the rate cards when the file changes', async () => {
+      const filePath = join(directory, 'rate-cards.json');
+      await fs.writeFile(filePath, JSON.stringify({ rateCards: [rateCard] }));
+      const repository = new FileRateCardRepository(filePath);
+      await repository.findAllRateCards();
+
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({ rateCards: [rateCard, nextRateCard] }),
+      );
+      const future = new Date(Date.now() + 5000);
+      await fs.utimes(filePath, future, future);
+
+      await expect(repository.findAllRateCards()).resolves.toHaveLength(2);
+    });
+
+    it('should keep every edit made concurrently', async () => {
+      const filePath = join(directory, 'rate-cards.json');
+      await fs.writeFile(filePath, JSON.stringify({ rateCards: [rateCard] }));
+      const service = new BlendRateAdminService(
+        new FileRateCardRepository(filePath),
+        new FxRateService(new ConfigService()),
+      );
+      const rates = { xSmall: 1, Small: 2, Medium: 3, Large: 4, xLarge: 5 };
+
+      await Promise.all([
+        service.create({ location: 'US', rates }, '2024.1'),
+        service.create({ location: 'EU', rates }, '2024.1'),
+      ]);
+
+      const saved = await new FileRateCardRepository(
+        filePath,
+      ).findAllRateCards();
+      expect(saved[0].blendRates.map((item) => item.location)).toEqual([
+        'India',
+        'US',
+        'EU',
+      ]);
+      await expect(fs.readdir(directory)).resolves.toEqual(['rate-cards.json']);
+    });
+
+    it('should reject an effort range that is not in order', async () => {
+      const filePath = join(directory, 'rate-cards.json');
+      const [catalog] = rateCard.assets;
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({
+          rateCards: [
+            {
+              ...rateCard,
+              assets: [
+                {
+                  ...catalog,
+                  components: [
+                    {
+                      ...catalog.components[0],
+                      effortRanges: {
+                        Medium: {
+                          India: {
+                            optimistic: 35,
+                            mostLikely: 30,
+                            pessimistic: 40,
+                          },
+                        },
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        }),
+      );
+
+      const repository = new FileRateCardRepository(filePath);
+
+      await expect(repository.findAllRateCards()).rejects.toThrow(
+        'component ignition has an effort range for India at Medium complexity',
+      );
+    });
+
+    it('should reject a rate card without blend rates', async () => {
+      const filePath = join(directory, 'rate-cards.json');
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({
+          rateCards: [
+            { version: '1', effectiveFrom: '2024-01-01', assets: [] },
+          ],
+        }),
+      );
+
+      const repository = new FileRateCardRepository(filePath);
+
+      await expect(repository.findAllRateCards()).rejects.toThrow(
+        'Rate card 1 has no blendRates list',
+      );
+    });
+  });
+
+  describe('pricing a request', () => {
+    it('should price every lookup with the rate card stamped on the response', async () => {
+      const repository = new InMemoryRateCardRepository([rateCard]);
+      const findRateCard = jest
+        .spyOn(repository, 'findRateCard')
+        .mockResolvedValueOnce(rateCard)
+        .mockResolvedValue({
+          ...rateCard,
+          version: '2024.2',
+          blendRates: [
+            {
+              location: 'India',
+              rates: {
+                xSmall: 20,
+                Small: 21,
+                Medium: 22,
+                Large: 23,
+                xLarge: 24,
+              },
+            },
+          ],
+        });
+      const calculator = new AtrCalculator(
+        repository,
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      );
+
+      const result = await calculator.calculateCosts({
+        assetName: 'ATR',
+        complexity: 'Medium',
+        commonFields: { deploymentType: 'onPremise' },
+        assetComponents: [
+          {
+            name: 'ignition',
+            resourceModel: [{ location: 'India', allocation: 100 }],
+          },
+        ],
+        specificFields: { licenseCount: 1 },
+      });
+
+      expect(findRateCard).toHaveBeenCalledTimes(1);
+      expect(result.rateCardVersion).toBe('2024.1');
+      // 30 effort days * 9 hours * 12/hour
+      expect(result.buildCost.total).toBe(3240);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { ConfigService } from '@nestjs/config';
+import { RequestValidationService } from '../src/costing/services/request-validation.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+
+describe('RequestValidationService', () => {
+  let service: RequestValidationService;
+
+  const request = (overrides: Record<string, unknown> = {}) => ({
+    assetName: 'ATR',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'onPremise' },
+    assetComponents: [
+      {
+        name: 'ignition',
+        resourceModel: [
+          { location: 'India', allocation: 90 },
+          { location: 'Australia', allocation: 10 },
+        ],
+      },
+    ],
+    specificFields: { licenseCount: 1 },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    const costingService = new CostingService();
+    costingService.registerCalculator(
+      new AtrCalculator(
+        new InMemoryRateCardRepository(),
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      ),
+    );
+    service = new RequestValidationService(costingService);
+  });
+
+  it('should accept a request that can be priced', async () => {
+    const result = await service.validate(request());
+
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should report request shape problems with their field path', async () => {
+    const result = await service.validate(
+      request({
+        commonFields: { deploymentType: 'mainframe' },
+        assetComponents: [
+          {
+            name: 'ignition',
+            resourceModel: [{ location: 'India', allocation: 120 }],
+          },
+        ],
+      }),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining([
+        'commonFields.deploymentType',
+        'assetComponents[0].resourceModel[0].allocation',
+      ]),
+    );
+  });
+
+  it('should report every calculator problem at once', async () => {
+    const result = await service.validate(
+      request({
+        complexity: undefined,
+        assetComponents: [
+          {
+            name: 'ignition',
+            resourceModel: [
+              { location: 'Atlantis', allocation: 50 },
+              { location: 'India', allocation: 40 },
+            ],
+          },
+          {
+            name: 'ignition',
+            resourceModel: [{ location: 'India', allocation: 100 }],
+          },
+          {
+            name: 'teleporter',
+            resourceModel: [{ location: 'India', allocation: 100 }],
+          },
+        ],
+        specificFields: {},
+      }),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: 'VALIDATION_FAILED',
+          path: 'assetComponents[0].resourceModel',
+        }),
+        expect.objectContaining({
+          code: 'VALIDATION_FAILED',
+          path: 'assetComponents[1].name',
+        }),
+        expect.objectContaining({
+          code: 'UNSUPPORTED_LOCATION',
+          path: 'assetComponents[0].resourceModel[0].location',
+        }),
+        expect.objectContaining({
+          code: 'UNSUPPORTED_COMPONENT',
+          path: 'assetComponents[2].name',
+        }),
+        expect.objectContaining({
+          code: 'VALIDATION_FAILED',
+          path: 'complexity',
+        }),
+        expect.objectContaining({
+          code: 'VALIDATION_FAILED',
+          path: 'specificFields.licenseCount',
+        }),
+      ]),
+    );
+  });
+
+  it('should report an unknown asset against assetName', async () => {
+    const result = await service.validate(request({ assetName: 'UNKNOWN' }));
+
+    expect(result).toEqual({
+      valid: false,
+      issues: [
+        {
+          code: 'VALIDATION_FAILED',
+          message: 'No calculator found for asset name: UNKNOWN',
+          path: 'assetName',
+        },
+      ],
+    });
+  });
+
+  it.each([
+    [
+      'a resource model that is not a list',
+      [{ name: 'ignition', resourceModel: 'x' }],
+    ],
+    ['a missing component', [null]],
+    ['a missing allocation', [{ name: 'ignition', resourceModel: [null] }]],
+  ])(
+    'should report %s without running the calculator',
+    async (_, assetComponents) => {
+      const result = await service.validate(request({ assetComponents }));
+
+      expect(result.valid).toBe(false);
+      expect(
+        result.issues.every((issue) =>
+          issue.path?.startsWith('assetComponents[0]'),
+        ),
+      ).toBe(true);
+    },
+  );
+
+  it('should report an invalid asOfDate without looking up rate data', async () => {
+    const result = await service.validate(request({ asOfDate: 'garbage' }));
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toEqual(['asOfDate']);
+  });
+});
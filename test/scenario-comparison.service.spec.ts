@@ -0,0 +1,151 @@
+import { ConfigService } from '@nestjs/config';
+import { ScenarioComparisonService } from '../src/costing/services/scenario-comparison.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { CompareRequestDto } from '../src/costing/dto/compare.dto';
+import { CostingValidationPipe } from '../src/costing/pipes/costing-validation.pipe';
+
+describe('ScenarioComparisonService', () => {
+  let service: ScenarioComparisonService;
+
+  const base = {
+    assetName: 'ATR',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'onPremise' },
+    assetComponents: [
+      {
+        name: 'ignition',
+        resourceModel: [
+          { location: 'India', allocation: 90 },
+          { location: 'Australia', allocation: 10 },
+        ],
+      },
+    ],
+    specificFields: { licenseCount: 1 },
+  };
+
+  beforeEach(() => {
+    const costingService = new CostingService();
+    costingService.registerCalculator(
+      new AtrCalculator(
+        new InMemoryRateCardRepository(),
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      ),
+    );
+    service = new ScenarioComparisonService(costingService);
+  });
+
+  it('should report per-component and per-location deltas', async () => {
+    const result = await service.compare({
+      base,
+      scenarios: [
+        {
+          name: '70/30',
+          resourceModel: [
+            { location: 'India', allocation: 70 },
+            { location: 'Australia', allocation: 30 },
+          ],
+        },
+      ],
+    } as CompareRequestDto);
+
+    // Medium ignition: India 32.8 days * 9h * 15, Australia 31.25 days * 8h * 52
+    const india = 32.8 * 9 * 15;
+    const australia = 31.25 * 8 * 52;
+    const [scenario] = result.scenarios;
+    expect(scenario.status).toBe('success');
+    expect(scenario.deltas!.locations).toEqual([
+      {
+        location: 'India',
+        baseAmount: Number((0.9 * india).toFixed(2)),
+        amount: Number((0.7 * india).toFixed(2)),
+        delta: Number((-0.2 * india).toFixed(2)),
+        baseEffortHours: Number((0.9 * 32.8 * 9).toFixed(2)),
+        effortHours: Number((0.7 * 32.8 * 9).toFixed(2)),
+        effortHoursDelta: Number((-0.2 * 32.8 * 9).toFixed(2)),
+      },
+      expect.objectContaining({
+        location: 'Australia',
+        delta: Number((0.2 * australia).toFixed(2)),
+      }),
+    ]);
+    expect(scenario.deltas!.components).toEqual([
+      expect.objectContaining({
+        componentName: 'ignition',
+        delta: scenario.deltas!.buildCost,
+      }),
+    ]);
+    expect(scenario.deltas!.runCost).toBe(0);
+  });
+
+  it('should merge specific field overrides over the base', async () => {
+    const result = await service.compare({
+      base,
+      scenarios: [
+        { name: 'more licences', specificFields: { licenseCount: 3 } },
+      ],
+    } as CompareRequestDto);
+
+    // Each extra licence adds 500 licence fees and 250 standard support
+    expect(result.scenarios[0].deltas!.runCost).toBe(1500);
+    expect(result.scenarios[0].deltas!.buildCost).toBe(0);
+  });
+
+  it('should report a failing scenario in place', async () => {
+    const result = await service.compare({
+      base,
+      scenarios: [
+        { name: 'no licences', specificFields: { licenseCount: 0 } },
+        { name: 'large', complexity: 'Large' },
+      ],
+    } as CompareRequestDto);
+
+    expect(result.scenarios[0]).toEqual({
+      name: 'no licences',
+      status: 'failed',
+      error:
+        'License count must be specified and at least 1 for ATR run cost calculation',
+    });
+    expect(result.scenarios[1].status).toBe('success');
+    expect(result.scenarios[1].deltas!.buildCost).toBeGreaterThan(0);
+  });
+
+  it('should apply a complexity override to components with their own complexity', async () => {
+    const result = await service.compare({
+      base: {
+        ...base,
+        complexity: undefined,
+        assetComponents: [{ ...base.assetComponents[0], complexity: 'Small' }],
+      },
+      scenarios: [
+        { name: 'medium', complexity: 'Medium' },
+        { name: 'large', complexity: 'Large' },
+      ],
+    } as CompareRequestDto);
+
+    const [medium, large] = result.scenarios;
+    expect(medium.deltas!.components[0].delta).toBeGreaterThan(0);
+    expect(large.deltas!.components[0].delta).toBeGreaterThan(
+      medium.deltas!.components[0].delta,
+    );
+  });
+
+  it('should reject scenarios sharing a name', async () => {
+    await expect(
+      new CostingValidationPipe().transform(
+        {
+          base,
+          scenarios: [
+            { name: 'large', complexity: 'Large' },
+            { name: 'large', complexity: 'xLarge' },
+          ],
+        },
+        { type: 'body', metatype: CompareRequestDto },
+      ),
+    ).rejects.toThrow('scenarios must have unique names');
+  });
+});
@@ -0,0 +1,122 @@
+import { ConfigService } from '@nestjs/config';
+import { SensitivityService } from '../src/costing/services/sensitivity.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { CostRequestDto } from '../src/costing/dto/cost-request.dto';
+import { SensitivityRequestDto } from '../src/costing/dto/sensitivity.dto';
+
+describe('SensitivityService', () => {
+  let costingService: CostingService;
+  let service: SensitivityService;
+
+  const request = {
+    assetName: 'ATR',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'onPremise', supportLevel: 'standard' },
+    assetComponents: [
+      {
+        name: 'ignition',
+        resourceModel: [
+          { location: 'India', allocation: 90 },
+          { location: 'Australia', allocation: 10 },
+        ],
+      },
+    ],
+    specificFields: { licenseCount: 10 },
+  } as CostRequestDto;
+
+  beforeEach(() => {
+    costingService = new CostingService();
+    costingService.registerCalculator(
+      new AtrCalculator(
+        new InMemoryRateCardRepository(),
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      ),
+    );
+    service = new SensitivityService(costingService);
+  });
+
+  it('should apply what-if adjustments to blend rates and efforts', async () => {
+    const result = await costingService.calculateAssetCost({
+      ...request,
+      adjustments: { blendRates: { India: 10 }, efforts: { ignition: -50 } },
+    });
+
+    // Medium ignition: India 32.8 days * 9h * 15 at 90%, Australia 31.25 * 8 * 52 at 10%
+    expect(result.buildCost.total).toBeCloseTo(
+      (0.9 * 4428 * 1.1 + 0.1 * 13000) * 0.5,
+    );
+  });
+
+  it('should rank the drivers by build cost swing', async () => {
+    const result = await service.analyse(request as SensitivityRequestDto);
+
+    expect(result.baseBuildCost).toBeCloseTo(0.9 * 4428 + 0.1 * 13000);
+    expect(result.drivers.map(({ input, target }) => [input, target])).toEqual([
+      ['allocation', 'ignition'],
+      ['effort', 'ignition'],
+      ['blendRate', 'India'],
+      ['blendRate', 'Australia'],
+      ['supportLevel', undefined],
+      ['licenseCount', undefined],
+    ]);
+
+    const [allocation] = result.drivers;
+    expect(allocation).toMatchObject({
+      lowValue: 'India 80%, Australia 20%',
+      highValue: 'India 100%, Australia 0%',
+    });
+    // 80/20 adds 10% of Australia's 13000 and drops 10% of India's 4428
+    expect(allocation.buildCost!.lowDelta).toBeCloseTo(1300 - 442.8);
+    expect(allocation.buildCost!.swing).toBeCloseTo(1714.4);
+  });
+
+  it('should report run cost impact of licences and support level', async () => {
+    const result = await service.analyse({
+      ...request,
+      percent: 20,
+      rankBy: 'runCost',
+    } as SensitivityRequestDto);
+
+    const [support, licenses] = result.drivers;
+    // 500 per licence plus support of 100, 250 or 500 per licence
+    expect(support).toMatchObject({
+      input: 'supportLevel',
+      lowValue: 'basic',
+      highValue: 'premium',
+      runCost: { lowDelta: -1500, highDelta: 2500, swing: 4000 },
+    });
+    expect(licenses).toMatchObject({
+      input: 'licenseCount',
+      lowValue: '8',
+      highValue: '12',
+      runCost: { lowDelta: -1500, highDelta: 1500, swing: 3000 },
+    });
+  });
+
+  it('should move small licence counts by one without going below one', async () => {
+    const result = await service.analyse({
+      ...request,
+      specificFields: { licenseCount: 1 },
+      percent: 100,
+      rankBy: 'runCost',
+    } as SensitivityRequestDto);
+
+    expect(
+      result.drivers.find((driver) => driver.input === 'licenseCount'),
+    ).toMatchObject({ lowValue: '1', highValue: '2' });
+  });
+
+  it('should propagate errors pricing the base request', async () => {
+    await expect(
+      service.analyse({
+        ...request,
+        assetName: 'UNKNOWN',
+      } as SensitivityRequestDto),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AtrCalculator } from '../src/costing/calculators/atr-calculator';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { AssetCostRequest } from '../src/costing/interfaces/costing.interface';
+import { StaffingOptions } from '../src/costing/interfaces/staffing.interface';
+import { StaffingOptionsDto } from '../src/costing/dto/staffing.dto';
+
+describe('Staffing plan', () => {
+  const calculator = new AtrCalculator(
+    new InMemoryRateCardRepository(),
+    new LocationRegistryService(new ConfigService()),
+    new FxRateService(new ConfigService()),
+  );
+
+  const request = (staffing?: StaffingOptions): AssetCostRequest => ({
+    assetName: 'ATR',
+    complexity: 'Medium',
+    commonFields: { deploymentType: 'onPremise' },
+    assetComponents: [
+      {
+        name: 'ignition',
+        resourceModel: [
+          { location: 'India', allocation: 90 },
+          { location: 'Australia', allocation: 10 },
+        ],
+      },
+    ],
+    specificFields: { licenseCount: 1 },
+    staffing,
+  });
+
+  it('should only plan staffing when asked to', async () => {
+    const result = await calculator.calculateCosts(request());
+
+    expect(result.staffingPlan).toBeUndefined();
+  });
+
+  it('should convert effort hours into FTE per location', async () => {
+    const result = await calculator.calculateCosts(
+      request({ deliveryWeeks: 6 }),
+    );
+
+    // India: 265.68 hours against 6 weeks * 5 days * 9 hours at 80%
+    // Australia: 25 hours against 6 weeks * 5 days * 8 hours at 80%
+    expect(result.staffingPlan).toEqual({
+      deliveryWeeks: 6,
+      utilisationPercent: 80,
+      totalFte: 1.36,
+      totalHeadcount: 3,
+      locations: [
+        {
+          location: 'India',
+          effortHours: 265.68,
+          hoursPerFte: 216,
+          fte: 1.23,
+          headcount: 2,
+        },
+        {
+          location: 'Australia',
+          effortHours: 25,
+          hoursPerFte: 192,
+          fte: 0.13,
+          headcount: 1,
+        },
+      ],
+    });
+  });
+
+  it('should split FTE by role', async () => {
+    const result = await calculator.calculateCosts(
+      request({
+        deliveryWeeks: 6,
+        utilisationPercent: 100,
+        roleMix: { Developer: 60, Tester: 40 },
+      }),
+    );
+
+    // India: 265.68 / 270 hours per FTE
+    const [india] = result.staffingPlan!.locations;
+    expect(india.fte).toBe(0.98);
+    expect(india.roles).toEqual([
+      { role: 'Developer', fte: 0.59, headcount: 1 },
+      { role: 'Tester', fte: 0.39, headcount: 1 },
+    ]);
+  });
+
+  it('should reject a role mix that does not total 100%', async () => {
+    await expect(
+      calculator.calculateCosts(
+        request({ deliveryWeeks: 6, roleMix: { Developer: 90 } }),
+      ),
+    ).rejects.toThrow('Role mix should total 100% (currently 90%)');
+  });
+
+  describe('StaffingOptionsDto validation', () => {
+    const pipe = new ValidationPipe({ transform: true });
+    const metadata: ArgumentMetadata = {
+      type: 'body',
+      metatype: StaffingOptionsDto,
+    };
+
+    it('should accept a role mix totalling 100%', async () => {
+      await expect(
+        pipe.transform(
+          { deliveryWeeks: 6, roleMix: { Developer: 60, Tester: 40, Lead: 0 } },
+          metadata,
+        ),
+      ).resolves.toBeInstanceOf(StaffingOptionsDto);
+    });
+
+    it.each([
+      ['does not total 100%', { Developer: 90 }],
+      ['has a negative share', { Developer: 110, Tester: -10 }],
+      ['has a blank role', { Developer: 60, ' ': 40 }],
+      ['is empty', {}],
+    ])('should reject a role mix that %s', async (_, roleMix) => {
+      await expect(
+        pipe.transform({ deliveryWeeks: 6, roleMix }, metadata),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TcoService } from '../src/costing/services/tco.service';
+import { CostingService } from '../src/costing/services/costing.service';
+import { LocationRegistryService } from '../src/costing/services/location-registry.service';
+import { FxRateService } from '../src/costing/services/fx-rate.service';
+import { InMemoryRateCardRepository } from '../src/costing/repositories/in-memory-rate-card.repository';
+import { ScpCalculator } from '../src/costing/calculators/scp-calculator';
+import { TcoRequestDto } from '../src/costing/dto/tco.dto';
+
+describe('TcoService', () => {
+  let costingService: CostingService;
+
+  // SCP is priced at 5000 build and 500 monthly run
+  const request = {
+    assetName: 'SCP',
+    commonFields: { deploymentType: 'cloud' },
+    assetComponents: [
+      {
+        name: 'setup',
+        resourceModel: [{ location: 'India', allocation: 100 }],
+      },
+    ],
+    specificFields: {},
+    horizonYears: 3,
+    goLiveOffsetMonths: 6,
+    annualEscalationPercent: 10,
+    discountRatePercent: 10,
+  } as TcoRequestDto;
+
+  const createService = (config: Record<string, string> = {}) =>
+    new TcoService(costingService, new ConfigService(config));
+
+  beforeEach(() => {
+    costingService = new CostingService();
+    costingService.registerCalculator(
+      new ScpCalculator(
+        new InMemoryRateCardRepository(),
+        new LocationRegistryService(new ConfigService()),
+        new FxRateService(new ConfigService()),
+      ),
+    );
+  });
+
+  it('should build a year-by-year schedule with escalation and NPV', async () => {
+    const result = await createService().calculateTco(request);
+
+    expect(result.schedule).toEqual([
+      {
+        year: 1,
+        buildCost: 5000,
+        runCost: 3000,
+        totalCost: 8000,
+        cumulativeCost: 8000,
+        discountFactor: 0.909091,
+        presentValue: 7272.73,
+      },
+      {
+        year: 2,
+        buildCost: 0,
+        runCost: 6600,
+        totalCost: 6600,
+        cumulativeCost: 14600,
+        discountFactor: 0.826446,
+        presentValue: 5454.55,
+      },
+      {
+        year: 3,
+        buildCost: 0,
+        runCost: 7260,
+        totalCost: 7260,
+        cumulativeCost: 21860,
+        discountFactor: 0.751315,
+        presentValue: 5454.55,
+      },
+    ]);
+    expect(result.totals).toEqual({
+      buildCost: 5000,
+      runCost: 16860,
+      totalCost: 21860,
+      netPresentValue: 18181.83,
+    });
+    expect(result.estimate.runCost.total).toBe(500);
+  });
+
+  it('should book the whole build in the first year when going live at once', async () => {
+    const result = await createService().calculateTco({
+      ...request,
+      goLiveOffsetMonths: 0,
+      annualEscalationPercent: 0,
+      horizonYears: 1,
+    } as TcoRequestDto);
+
+    expect(result.schedule[0]).toEqual(
+      expect.objectContaining({ buildCost: 5000, runCost: 6000 }),
+    );
+  });
+
+  it('should default the discount rate from configuration', async () => {
+    const withoutRate = { ...request, discountRatePercent: undefined };
+
+    const configured = await createService({
+      TCO_DISCOUNT_RATE_PERCENT: '5',
+    }).calculateTco(withoutRate as TcoRequestDto);
+    const fallback = await createService().calculateTco(
+      withoutRate as TcoRequestDto,
+    );
+
+    expect(configured.assumptions.discountRatePercent).toBe(5);
+    expect(fallback.assumptions.discountRatePercent).toBe(8);
+  });
+
+  it('should reject a go-live beyond the horizon', async () => {
+    await expect(
+      createService().calculateTco({
+        ...request,
+        goLiveOffsetMonths: 36,
+      } as TcoRequestDto),
+    ).rejects.toThrow(BadRequestException);
+  });
+});